@@ -0,0 +1,192 @@
+// Base URL of the config editor worker
+export const API_URL =
+	import.meta.env.DEV && import.meta.env.VITE_USE_LOCAL_API
+		? "http://localhost:8787"
+		: "https://meanwhile-config-editor.dalberto-adler.workers.dev";
+
+// Config picked with ?config=<id>, or null for the default one
+export const CONFIG_ID = new URLSearchParams(location.search).get("config");
+
+// URL of a route of the selected config, e.g. configUrl("/chat")
+export function configUrl(path: string): string {
+	const base = CONFIG_ID
+		? `/api/configs/${encodeURIComponent(CONFIG_ID)}`
+		: "/api";
+	return `${API_URL}${base}${path}`;
+}
+
+// Message for a 429 response from the worker
+export function retryAfterMessage(retryAfter: number): string {
+	const wait =
+		retryAfter < 60
+			? `${retryAfter} seconds`
+			: `${Math.ceil(retryAfter / 60)} minutes`;
+	return `Too many attempts. Try again in ${wait}.`;
+}
+
+export type Role = "editor" | "viewer";
+
+export type Session = {
+	accessToken: string;
+	refreshToken: string;
+	// Epoch ms when the access token expires
+	expiresAt: number;
+	user: { name: string; role: Role };
+};
+
+type SessionResponse = Omit<Session, "expiresAt"> & { expiresIn: number };
+
+// Sessions only work for the config they were opened for
+const SESSION_STORAGE_KEY = CONFIG_ID
+	? `meanwhile-session:${CONFIG_ID}`
+	: "meanwhile-session";
+// Before accounts existed the editor kept the raw shared PIN here
+const LEGACY_PASSWORD_STORAGE_KEY = "meanwhile-config-password";
+
+// Refresh a little early so requests don't race the expiry
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+export function loadSession(): Session | null {
+	localStorage.removeItem(LEGACY_PASSWORD_STORAGE_KEY);
+	const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+	if (!stored) return null;
+	try {
+		return JSON.parse(stored) as Session;
+	} catch {
+		return null;
+	}
+}
+
+function saveSession({ expiresIn, ...tokens }: SessionResponse): Session {
+	const session = { ...tokens, expiresAt: Date.now() + expiresIn * 1000 };
+	localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+	return session;
+}
+
+export function clearSession() {
+	localStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+export async function login(
+	username: string,
+	password: string,
+): Promise<{ session: Session } | { error: string }> {
+	const response = await fetch(configUrl("/auth/login"), {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ username, password }),
+	});
+	const data = await response.json();
+
+	if (response.status === 429) {
+		return { error: retryAfterMessage(data.retryAfter) };
+	}
+	if (!response.ok) {
+		return { error: data.error ?? "Could not log in" };
+	}
+	return { session: saveSession(data) };
+}
+
+// Refresh tokens are single-use, so concurrent callers share one request
+let refreshing: Promise<Session | null> | null = null;
+
+function refreshSession(session: Session): Promise<Session | null> {
+	// Another request already swapped this refresh token; reusing it would
+	// get the whole session revoked
+	const stored = loadSession();
+	if (stored && stored.refreshToken !== session.refreshToken) {
+		return Promise.resolve(stored);
+	}
+
+	refreshing ??= (async () => {
+		const response = await fetch(configUrl("/auth/refresh"), {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ refreshToken: session.refreshToken }),
+		});
+		if (!response.ok) {
+			clearSession();
+			return null;
+		}
+		return saveSession(await response.json());
+	})().finally(() => {
+		refreshing = null;
+	});
+	return refreshing;
+}
+
+// Fetch a route of the selected config (e.g. "/history") as the logged-in
+// user, refreshing the session as needed. A 401 response means the user has
+// to log in again.
+export async function apiFetch(
+	path: string,
+	init: RequestInit = {},
+): Promise<Response> {
+	let session = loadSession();
+	if (session && session.expiresAt - Date.now() < EXPIRY_MARGIN_MS) {
+		session = await refreshSession(session);
+	}
+	if (!session) {
+		return new Response(JSON.stringify({ error: "Not logged in" }), {
+			status: 401,
+		});
+	}
+
+	const send = (accessToken: string) =>
+		fetch(configUrl(path), {
+			...init,
+			headers: { ...init.headers, Authorization: `Bearer ${accessToken}` },
+		});
+
+	const response = await send(session.accessToken);
+	if (response.status !== 401) return response;
+
+	// The session may have been refreshed elsewhere or revoked
+	const refreshed = await refreshSession(session);
+	return refreshed ? send(refreshed.accessToken) : response;
+}
+
+export async function logout() {
+	const session = loadSession();
+	clearSession();
+	if (!session) return;
+	await fetch(configUrl("/auth/logout"), {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ refreshToken: session.refreshToken }),
+	});
+}
+
+export type ServerSentEvent = {
+	event: string;
+	data: string;
+};
+
+// Call onEvent for each event of a text/event-stream response as it arrives
+export async function readEventStream(
+	response: Response,
+	onEvent: (event: ServerSentEvent) => void,
+) {
+	if (!response.body) return;
+	const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = "";
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		buffer += value;
+		// Events are separated by a blank line
+		const blocks = buffer.split("\n\n");
+		buffer = blocks.pop() ?? "";
+		for (const block of blocks) {
+			let event = "message";
+			const data: string[] = [];
+			for (const line of block.split("\n")) {
+				if (line.startsWith("event:"))
+					event = line.slice("event:".length).trim();
+				if (line.startsWith("data:"))
+					data.push(line.slice("data:".length).trimStart());
+			}
+			onEvent({ event, data: data.join("\n") });
+		}
+	}
+}
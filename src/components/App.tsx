@@ -16,8 +16,17 @@ import { LandingView } from "./LandingView";
 import { ConfigEditor } from "./ConfigEditor";
 import { useViewMode, getNextViewMode } from "../hooks/useViewMode";
 import { useContentSize } from "../hooks/useContentSize";
-import { CONFIG } from "../config";
-import type { DayInfo } from "../types";
+import { ConfigErrorView, ConfigIssuesBanner } from "./ConfigErrors";
+import {
+	config,
+	configIssues,
+	milestoneOccurrences,
+	refreshConfig,
+	type Config,
+	type Milestone,
+} from "../config";
+import { describeRecurrence } from "../recurrence";
+import type { DayInfo, DayMilestone } from "../types";
 import "../styles/app.css";
 
 const MONTHS = [
@@ -40,16 +49,6 @@ export const highlightedDays = signal<{ indices: Set<number>; color?: string }>(
 	{ indices: new Set() },
 );
 
-// Milestone type for random generation
-export type Milestone = {
-	date: Date;
-	endDate?: Date;
-	label: string;
-	emoji: string;
-	color?: string;
-	description?: string;
-};
-
 // Random milestone generation for testing
 const RANDOM_EMOJIS = [
 	"🎂",
@@ -155,7 +154,7 @@ function generateRandomMilestones(startDate: Date, dueDate: Date): Milestone[] {
 			? addDays(date, 2 + Math.floor(Math.random() * 10))
 			: undefined;
 
-		milestones.push({ date, endDate, label, emoji, color });
+		milestones.push({ id: `random-${i}`, date, endDate, label, emoji, color });
 	}
 
 	return milestones.sort((a, b) => a.date.getTime() - b.date.getTime());
@@ -164,6 +163,24 @@ function generateRandomMilestones(startDate: Date, dueDate: Date): Milestone[] {
 const LANDING_SEEN_KEY = "meanwhile-landing-seen";
 
 export function App() {
+	// Swap in the latest config once it arrives from the worker
+	useEffect(() => {
+		refreshConfig();
+	}, []);
+
+	if (!config.value) {
+		return <ConfigErrorView issues={configIssues.value} />;
+	}
+	return <Tracker config={config.value} />;
+}
+
+type TrackerProps = {
+	config: Config;
+};
+
+function Tracker({
+	config: { startDate, dueDate, todayEmoji, milestones },
+}: TrackerProps) {
 	const [windowSize, setWindowSize] = useState(getViewportSize);
 	const contentRef = useRef<HTMLDivElement>(null);
 	const contentSize = useContentSize(contentRef);
@@ -185,9 +202,7 @@ export function App() {
 			if (e.metaKey && e.key === ";") {
 				e.preventDefault();
 				setRandomMilestones((prev) =>
-					prev === null
-						? generateRandomMilestones(CONFIG.startDate, CONFIG.dueDate)
-						: null,
+					prev === null ? generateRandomMilestones(startDate, dueDate) : null,
 				);
 			}
 			// CMD+E to toggle config editor
@@ -198,7 +213,7 @@ export function App() {
 		};
 		window.addEventListener("keydown", handleKeyDown);
 		return () => window.removeEventListener("keydown", handleKeyDown);
-	}, []);
+	}, [startDate, dueDate]);
 
 	useEffect(() => {
 		const updateSize = () => setWindowSize(getViewportSize());
@@ -231,49 +246,30 @@ export function App() {
 		return () => clearTimeout(timer);
 	}, [tooltip]);
 
-	// Use random or real milestones
-	const activeMilestones = randomMilestones ?? CONFIG.milestones;
+	// Use random or real milestones, with recurring ones repeated up to the
+	// due date
+	const activeMilestones = useMemo(
+		() => milestoneOccurrences(randomMilestones ?? milestones, dueDate),
+		[randomMilestones, milestones, dueDate],
+	);
 
-	// Build milestone lookup by day index (needs to be before handleDayClick)
+	// Milestones by the day they start on
 	const milestoneLookup = useMemo(() => {
-		const lookup: Record<
-			number,
-			{ label: string; color?: string; startIndex: number; endIndex: number }
-		> = {};
+		const lookup: Record<number, DayMilestone[]> = {};
 		for (const m of activeMilestones) {
-			const startIndex = getDaysBetween(CONFIG.startDate, m.date);
-			const endIndex = m.endDate
-				? getDaysBetween(CONFIG.startDate, m.endDate)
-				: startIndex;
-			lookup[startIndex] = {
+			const startIndex = getDaysBetween(startDate, m.date);
+			(lookup[startIndex] ??= []).push({
+				id: m.id,
 				label: m.label,
+				emoji: m.emoji,
 				color: m.color,
-				startIndex,
-				endIndex,
-			};
+				description: m.description,
+				repeats: m.recurrence && describeRecurrence(m.recurrence),
+				endIndex: m.endDate ? getDaysBetween(startDate, m.endDate) : undefined,
+			});
 		}
 		return lookup;
-	}, [activeMilestones]);
-
-	// Build annotation emojis from active milestones
-	const annotationEmojis = useMemo(() => {
-		const emojis: Record<string, string> = { Today: CONFIG.todayEmoji };
-		for (const m of activeMilestones) {
-			emojis[m.label] = m.emoji;
-		}
-		return emojis;
-	}, [activeMilestones]);
-
-	// Build annotation descriptions from active milestones
-	const annotationDescriptions = useMemo(() => {
-		const descriptions: Record<string, string> = {};
-		for (const m of activeMilestones) {
-			if (m.description) {
-				descriptions[m.label] = m.description;
-			}
-		}
-		return descriptions;
-	}, [activeMilestones]);
+	}, [activeMilestones, startDate]);
 
 	const handleDayClick = useCallback(
 		(e: MouseEvent, day: DayInfo) => {
@@ -306,41 +302,32 @@ export function App() {
 	const today = new Date();
 	today.setHours(0, 0, 0, 0);
 
-	const totalDays = getDaysBetween(CONFIG.startDate, CONFIG.dueDate) + 1;
+	const totalDays = getDaysBetween(startDate, dueDate) + 1;
 	const daysPassed = Math.max(
 		0,
-		Math.min(totalDays, getDaysBetween(CONFIG.startDate, today) + 1),
+		Math.min(totalDays, getDaysBetween(startDate, today) + 1),
 	);
 
 	const days = useMemo(() => {
 		return Array.from({ length: totalDays }, (_, i) => {
-			const date = addDays(CONFIG.startDate, i);
+			const date = addDays(startDate, i);
 			const weekNum = Math.floor(i / 7) + 1;
-			const milestone = milestoneLookup[i];
-			const isToday = i === daysPassed - 1;
-
-			let annotation = "";
-			let color: string | undefined;
-			if (milestone) {
-				annotation = milestone.label;
-				color = milestone.color;
-			} else if (isToday) {
-				annotation = "Today";
-			}
+			const milestones = milestoneLookup[i] ?? [];
+			const color = milestones.find((m) => m.color)?.color;
 
 			return {
 				index: i,
 				passed: i < daysPassed,
 				color,
-				isToday,
+				isToday: i === daysPassed - 1,
 				isOddWeek: weekNum % 2 === 1,
 				dateLabel:
 					i % 7 === 0 ? `${formatDate(date)} (${weekNum})` : formatDate(date),
-				annotation,
-				isUncoloredMilestone: !!milestone && !color,
+				milestones,
+				isUncoloredMilestone: milestones.length > 0 && !color,
 			};
 		});
-	}, [totalDays, daysPassed, milestoneLookup]);
+	}, [totalDays, daysPassed, milestoneLookup, startDate]);
 
 	const isLandscape = windowSize.width > windowSize.height;
 	const toggleViewMode = useCallback(() => {
@@ -367,8 +354,8 @@ export function App() {
 						windowSize={contentSize ?? windowSize}
 						showAnnotationDate={showAnnotationDate}
 						selectedDayIndex={tooltip?.day.index ?? null}
-						startDate={CONFIG.startDate}
-						annotationEmojis={annotationEmojis}
+						startDate={startDate}
+						todayEmoji={todayEmoji}
 						onDayClick={handleDayClick}
 					/>
 				) : viewMode === "weekly" ? (
@@ -376,7 +363,7 @@ export function App() {
 						days={days}
 						windowSize={contentSize ?? windowSize}
 						isLandscape={isLandscape}
-						startDate={CONFIG.startDate}
+						startDate={startDate}
 						onDayClick={handleDayClick}
 						selectedDayIndex={tooltip?.day.index ?? null}
 					/>
@@ -384,10 +371,9 @@ export function App() {
 					<TimelineView
 						days={days}
 						windowSize={contentSize ?? windowSize}
-						startDate={CONFIG.startDate}
+						startDate={startDate}
 						onDayClick={handleDayClick}
 						selectedDayIndex={tooltip?.day.index ?? null}
-						annotationEmojis={annotationEmojis}
 						milestones={activeMilestones}
 					/>
 				)}
@@ -403,10 +389,15 @@ export function App() {
 					day={tooltip.day}
 					position={tooltip.position}
 					windowSize={windowSize}
-					startDate={CONFIG.startDate}
-					dueDate={CONFIG.dueDate}
-					annotationEmojis={annotationEmojis}
-					annotationDescriptions={annotationDescriptions}
+					startDate={startDate}
+					dueDate={dueDate}
+					todayEmoji={todayEmoji}
+				/>
+			)}
+			{configIssues.value.length > 0 && (
+				<ConfigIssuesBanner
+					issues={configIssues.value}
+					onEdit={() => setShowConfigEditor(true)}
 				/>
 			)}
 			{showConfigEditor && (
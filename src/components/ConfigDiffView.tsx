@@ -0,0 +1,63 @@
+import { describeOffset } from "../offsets";
+import type { PregnancyOffsetJSON } from "../schema";
+
+type FieldChange = {
+	field: string;
+	from?: string;
+	to?: string;
+};
+
+export type DiffMilestone = {
+	id: string;
+	// One of date and offset, and at most one of endDate and endOffset
+	date?: string;
+	offset?: PregnancyOffsetJSON;
+	endDate?: string;
+	endOffset?: PregnancyOffsetJSON;
+	label: string;
+	emoji: string;
+};
+
+export type ConfigDiff = {
+	fields: FieldChange[];
+	added: DiffMilestone[];
+	removed: DiffMilestone[];
+	changed: { id: string; label: string; changes: FieldChange[] }[];
+};
+
+export function formatRange(m: DiffMilestone): string {
+	const start = m.offset ? describeOffset(m.offset) : m.date;
+	const end = m.endOffset ? describeOffset(m.endOffset) : m.endDate;
+	return end ? `${start} → ${end}` : `${start}`;
+}
+
+function formatChange({ field, from, to }: FieldChange): string {
+	return `${field}: ${from || "(none)"} → ${to || "(none)"}`;
+}
+
+export function DiffView({ diff }: { diff: ConfigDiff }) {
+	return (
+		<ul class="config-diff">
+			{diff.fields.map((change) => (
+				<li key={change.field} class="diff-changed">
+					{formatChange(change)}
+				</li>
+			))}
+			{diff.added.map((m) => (
+				<li key={`added-${m.id}`} class="diff-added">
+					+ {m.emoji} {m.label} ({formatRange(m)})
+				</li>
+			))}
+			{diff.removed.map((m) => (
+				<li key={`removed-${m.id}`} class="diff-removed">
+					− {m.emoji} {m.label} ({formatRange(m)})
+				</li>
+			))}
+			{diff.changed.map((m) => (
+				<li key={`changed-${m.id}`} class="diff-changed">
+					~ {m.label}: {m.changes.map(formatChange).join(", ")}
+				</li>
+			))}
+		</ul>
+	);
+}
@@ -1,44 +1,149 @@
 import { useState, useRef, useEffect } from "preact/hooks";
+import {
+	apiFetch,
+	clearSession,
+	loadSession,
+	login,
+	logout,
+	readEventStream,
+	retryAfterMessage,
+	type Session,
+} from "../api";
+import { refreshConfig } from "../config";
+import { DiffView, type ConfigDiff } from "./ConfigDiffView";
+import { HistoryPanel } from "./HistoryPanel";
+import { MilestoneForm } from "./MilestoneForm";
 
-const API_URL =
-	import.meta.env.DEV && import.meta.env.VITE_USE_LOCAL_API
-		? "http://localhost:8787"
-		: "https://meanwhile-config-editor.dalberto-adler.workers.dev";
-
-const PASSWORD_STORAGE_KEY = "meanwhile-config-password";
+type Proposal = {
+	id: string;
+	diff: ConfigDiff;
+	// "stale" means the config changed since the proposal was made
+	status: "pending" | "confirming" | "accepted" | "rejected" | "stale";
+};
 
 type Message = {
 	role: "user" | "assistant";
 	content: string;
+	commitSha?: string;
+	// Only when the config is stored on GitHub
 	commitUrl?: string;
+	proposal?: Proposal;
+	undo?: "pending" | "done";
+	// Where the edit went in pull request mode, and what became of it
+	pullRequest?: PullRequest;
+	pullRequestState?: "merging" | "closing" | "merged" | "closed";
+	// Validation warnings about the edited config
+	warnings?: string[];
+	// Edits the assistant corrected before this reply
+	attempts?: EditAttempt[];
+	// Errors and notices written by the app, not the model, which are
+	// left out of the history sent with the next message
+	local?: boolean;
+};
+
+type Toast = {
+	text: string;
+	url?: string;
+};
+
+type Tab = "chat" | "milestones" | "history";
+
+// The worker only replays this many turns, so there's no use sending more
+const MAX_HISTORY_TURNS = 50;
+
+// Progress reported by /api/chat/stream
+type ChatPhase = "generating" | "validating" | "repairing" | "committing";
+
+const PHASE_LABELS: Record<ChatPhase, string> = {
+	generating: "Thinking…",
+	validating: "Checking the edit…",
+	repairing: "Fixing the edit…",
+	committing: "Saving…",
+};
+
+type ConfigIssue = {
+	path: string;
+	message: string;
+	severity: "error" | "warning";
+};
+
+// An edit the worker rejected, and why
+type EditAttempt = {
+	issues: ConfigIssue[];
+};
+
+type PullRequest = {
+	number: number;
+	url: string;
 };
 
+// The commit an edit was saved as. In pull request mode it waits on its own
+// branch until it's merged.
+type Commit = {
+	commitSha?: string;
+	commitUrl?: string;
+	pullRequest?: PullRequest;
+};
+
+type ChatReply = Commit & {
+	response: string;
+	proposalId?: string;
+	diff?: ConfigDiff;
+	warnings?: ConfigIssue[];
+	attempts?: EditAttempt[];
+};
+
+// The assistant's reply while it is still streaming in
+type Streaming = {
+	content: string;
+	phase: ChatPhase | null;
+};
+
+const TOAST_DURATION_MS = 4000;
+
 type Props = {
 	onClose: () => void;
 };
 
 export function ConfigEditor({ onClose }: Props) {
-	const [password, setPassword] = useState(() => localStorage.getItem(PASSWORD_STORAGE_KEY) || "");
-	const [passwordError, setPasswordError] = useState(false);
-	const [isAuthenticated, setIsAuthenticated] = useState(() => !!localStorage.getItem(PASSWORD_STORAGE_KEY));
+	const [session, setSession] = useState<Session | null>(loadSession);
+	const [username, setUsername] = useState("");
+	const [password, setPassword] = useState("");
+	const [loginError, setLoginError] = useState<string | null>(null);
+	const [loggingIn, setLoggingIn] = useState(false);
 	const [messages, setMessages] = useState<Message[]>([]);
 	const [input, setInput] = useState("");
 	const [loading, setLoading] = useState(false);
+	const [streaming, setStreaming] = useState<Streaming | null>(null);
+	const [toast, setToast] = useState<Toast | null>(null);
+	const [tab, setTab] = useState<Tab>(() =>
+		session?.user.role === "viewer" ? "history" : "chat",
+	);
 	const inputRef = useRef<HTMLInputElement>(null);
 	const messagesEndRef = useRef<HTMLDivElement>(null);
-	const passwordInputRef = useRef<HTMLInputElement>(null);
+	const usernameInputRef = useRef<HTMLInputElement>(null);
+
+	const isAuthenticated = session !== null;
+	// Viewers can browse history but not edit
+	const canEdit = session?.user.role === "editor";
 
 	useEffect(() => {
 		if (isAuthenticated) {
 			inputRef.current?.focus();
 		} else {
-			passwordInputRef.current?.focus();
+			usernameInputRef.current?.focus();
 		}
 	}, [isAuthenticated]);
 
 	useEffect(() => {
 		messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-	}, [messages]);
+	}, [messages, streaming]);
+
+	useEffect(() => {
+		if (!toast) return;
+		const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+		return () => clearTimeout(timer);
+	}, [toast]);
 
 	// Close on Escape
 	useEffect(() => {
@@ -51,72 +156,306 @@ export function ConfigEditor({ onClose }: Props) {
 		return () => window.removeEventListener("keydown", handleKeyDown);
 	}, [onClose]);
 
-	const handlePasswordChange = (e: Event) => {
-		const value = (e.target as HTMLInputElement).value;
-		setPassword(value);
-		setPasswordError(false);
+	const handleLogin = async (e: Event) => {
+		e.preventDefault();
+		if (!username.trim() || !password || loggingIn) return;
+
+		setLoggingIn(true);
+		setLoginError(null);
+		try {
+			const result = await login(username.trim(), password);
+			if ("error" in result) {
+				setLoginError(result.error);
+				return;
+			}
+			setPassword("");
+			setSession(result.session);
+			setTab(result.session.user.role === "viewer" ? "history" : "chat");
+		} catch (err) {
+			setLoginError("Failed to connect to server");
+		} finally {
+			setLoggingIn(false);
+		}
 	};
 
-	const handlePasswordSubmit = (e: Event) => {
-		e.preventDefault();
-		if (password.trim()) {
-			setIsAuthenticated(true);
+	const handleLogout = async () => {
+		setSession(null);
+		setMessages([]);
+		try {
+			await logout();
+		} catch (err) {
+			// The local session is gone either way; the tokens expire on their own
 		}
 	};
 
+	const addAssistantMessage = (message: Omit<Message, "role">) => {
+		setMessages((prev) => [...prev, { role: "assistant", ...message }]);
+	};
+
 	const handleSubmit = async (e: Event) => {
 		e.preventDefault();
 		if (!input.trim() || loading) return;
 
 		const userMessage = input.trim();
+		// Prior turns give the assistant context for follow-ups ("make that the 17th")
+		const history = messages
+			.filter((msg) => !msg.local)
+			.slice(-MAX_HISTORY_TURNS)
+			.map(({ role, content }) => ({ role, content }));
 		setInput("");
 		setMessages((prev) => [...prev, { role: "user", content: userMessage }]);
 		setLoading(true);
 
 		try {
-			const response = await fetch(`${API_URL}/api/chat`, {
+			const response = await apiFetch("/chat/stream", {
 				method: "POST",
 				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({ pin: password, message: userMessage }),
+				body: JSON.stringify({
+					message: userMessage,
+					history,
+					mode: "preview",
+				}),
 			});
 
 			if (response.status === 401) {
-				// Invalid password - clear stored password
-				localStorage.removeItem(PASSWORD_STORAGE_KEY);
-				setPassword("");
-				setPasswordError(true);
-				setIsAuthenticated(false);
+				handleUnauthorized();
 				setMessages((prev) => prev.slice(0, -1)); // Remove the user message
 				setInput(userMessage); // Restore input
 				return;
 			}
 
+			if (!response.ok) {
+				const data = await response.json();
+				addAssistantMessage({
+					content:
+						response.status === 429
+							? retryAfterMessage(data.retryAfter)
+							: `Error: ${data.error}`,
+					local: true,
+				});
+				return;
+			}
+
+			// Render the explanation as it streams in, then the final reply
+			setStreaming({ content: "", phase: null });
+			const reply: {
+				result?: ChatReply;
+				error?: { error: string; status: number };
+			} = {};
+			await readEventStream(response, ({ event, data }) => {
+				const payload = JSON.parse(data);
+				if (event === "text") {
+					setStreaming((prev) => ({
+						content: (prev?.content ?? "") + payload.text,
+						phase: prev?.phase ?? null,
+					}));
+				} else if (event === "phase") {
+					// Generating or repairing re-runs the edit, so earlier text no longer applies
+					const restarting =
+						payload.phase === "generating" || payload.phase === "repairing";
+					setStreaming((prev) => ({
+						content: restarting ? "" : (prev?.content ?? ""),
+						phase: payload.phase,
+					}));
+				} else if (event === "result") {
+					reply.result = payload;
+				} else if (event === "error") {
+					reply.error = payload;
+				}
+			});
+
+			if (reply.result) {
+				const data = reply.result;
+				// Show the edit on the timeline behind the editor straight away
+				if (data.commitSha) refreshConfig();
+				addAssistantMessage({
+					content: data.response,
+					commitSha: data.commitSha,
+					commitUrl: data.commitUrl,
+					pullRequest: data.pullRequest,
+					warnings: data.warnings?.map((warning) => warning.message),
+					attempts: data.attempts,
+					proposal:
+						data.proposalId && data.diff
+							? { id: data.proposalId, diff: data.diff, status: "pending" }
+							: undefined,
+				});
+			} else if (reply.error?.status === 409) {
+				// Someone else kept editing the config; the message says what to do
+				addAssistantMessage({ content: reply.error.error, local: true });
+			} else {
+				addAssistantMessage({
+					content: `Error: ${reply.error?.error ?? "The reply was cut off"}`,
+					local: true,
+				});
+			}
+		} catch (err) {
+			addAssistantMessage({
+				content: "Failed to connect to server",
+				local: true,
+			});
+		} finally {
+			setStreaming(null);
+			setLoading(false);
+		}
+	};
+
+	const updateProposal = (
+		index: number,
+		update: Partial<Proposal>,
+		commit: Commit = {},
+	) => {
+		setMessages((prev) =>
+			prev.map((msg, i) =>
+				i === index && msg.proposal
+					? {
+							...msg,
+							commitSha: commit.commitSha ?? msg.commitSha,
+							commitUrl: commit.commitUrl ?? msg.commitUrl,
+							pullRequest: commit.pullRequest ?? msg.pullRequest,
+							proposal: { ...msg.proposal, ...update },
+						}
+					: msg,
+			),
+		);
+	};
+
+	const handleAccept = async (index: number, proposal: Proposal) => {
+		updateProposal(index, { status: "confirming" });
+		try {
+			const response = await apiFetch("/confirm", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ proposalId: proposal.id }),
+			});
+			if (response.status === 401) {
+				updateProposal(index, { status: "pending" });
+				handleUnauthorized();
+				return;
+			}
 			const data = await response.json();
 
-			if (data.error) {
+			if (response.status === 429) {
+				updateProposal(index, { status: "pending" });
+				setToast({ text: retryAfterMessage(data.retryAfter) });
+			} else if (response.status === 409) {
+				updateProposal(index, { status: "stale" });
 				setMessages((prev) => [
 					...prev,
-					{ role: "assistant", content: `Error: ${data.error}` },
+					{ role: "assistant", content: data.error, local: true },
 				]);
-			} else {
-				// Password worked - store it
-				localStorage.setItem(PASSWORD_STORAGE_KEY, password);
+			} else if (data.error) {
+				updateProposal(index, { status: "pending" });
 				setMessages((prev) => [
 					...prev,
-					{
-						role: "assistant",
-						content: data.response,
-						commitUrl: data.commitUrl,
-					},
+					{ role: "assistant", content: `Error: ${data.error}`, local: true },
 				]);
+			} else {
+				updateProposal(index, { status: "accepted" }, data);
+				refreshConfig();
 			}
 		} catch (err) {
+			updateProposal(index, { status: "pending" });
 			setMessages((prev) => [
 				...prev,
-				{ role: "assistant", content: "Failed to connect to server" },
+				{
+					role: "assistant",
+					content: "Failed to connect to server",
+					local: true,
+				},
 			]);
-		} finally {
-			setLoading(false);
+		}
+	};
+
+	const handleUnauthorized = () => {
+		clearSession();
+		setSession(null);
+		setLoginError("Your session has expired. Please log in again.");
+	};
+
+	const setUndoState = (index: number, undo: Message["undo"]) => {
+		setMessages((prev) =>
+			prev.map((msg, i) => (i === index ? { ...msg, undo } : msg)),
+		);
+	};
+
+	const handleUndo = async (index: number, sha: string) => {
+		setUndoState(index, "pending");
+		try {
+			const response = await apiFetch("/revert", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ sha }),
+			});
+			if (response.status === 401) {
+				setUndoState(index, undefined);
+				handleUnauthorized();
+				return;
+			}
+			const data = await response.json();
+
+			if (response.status === 429) {
+				setUndoState(index, undefined);
+				setToast({ text: retryAfterMessage(data.retryAfter) });
+			} else if (data.error) {
+				setUndoState(index, undefined);
+				setToast({ text: `Undo failed: ${data.error}` });
+			} else {
+				setUndoState(index, "done");
+				refreshConfig();
+				setToast({ text: "Change undone", url: data.commitUrl });
+			}
+		} catch (err) {
+			setUndoState(index, undefined);
+			setToast({ text: "Failed to connect to server" });
+		}
+	};
+
+	const setPullRequestState = (
+		index: number,
+		pullRequestState: Message["pullRequestState"],
+	) => {
+		setMessages((prev) =>
+			prev.map((msg, i) => (i === index ? { ...msg, pullRequestState } : msg)),
+		);
+	};
+
+	const handlePullRequest = async (
+		index: number,
+		pullRequest: PullRequest,
+		action: "merge" | "close",
+	) => {
+		setPullRequestState(index, action === "merge" ? "merging" : "closing");
+		try {
+			const response = await apiFetch(`/pull-requests/${pullRequest.number}`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ action }),
+			});
+			if (response.status === 401) {
+				setPullRequestState(index, undefined);
+				handleUnauthorized();
+				return;
+			}
+			const data = await response.json();
+
+			if (response.status === 429) {
+				setPullRequestState(index, undefined);
+				setToast({ text: retryAfterMessage(data.retryAfter) });
+			} else if (data.error) {
+				setPullRequestState(index, undefined);
+				setToast({ text: `Couldn't ${action}: ${data.error}` });
+			} else if (action === "merge") {
+				setPullRequestState(index, "merged");
+				refreshConfig();
+				setToast({ text: "Change merged", url: data.commitUrl });
+			} else {
+				setPullRequestState(index, "closed");
+				setToast({ text: "Pull request closed" });
+			}
+		} catch (err) {
+			setPullRequestState(index, undefined);
+			setToast({ text: "Failed to connect to server" });
 		}
 	};
 
@@ -125,78 +464,284 @@ export function ConfigEditor({ onClose }: Props) {
 			<div class="config-editor" onClick={(e) => e.stopPropagation()}>
 				<div class="config-editor-header">
 					<h2>Config Editor</h2>
+					{session && (
+						<span class="config-editor-user">
+							{session.user.name}
+							{!canEdit && " (view only)"}
+							<button class="config-editor-logout" onClick={handleLogout}>
+								Log out
+							</button>
+						</span>
+					)}
 					<button class="config-editor-close" onClick={onClose}>
 						&times;
 					</button>
 				</div>
 
 				{!isAuthenticated ? (
-					<form class="config-editor-password" onSubmit={handlePasswordSubmit}>
-						<label>Enter password to continue</label>
+					<form class="config-editor-password" onSubmit={handleLogin}>
+						<label>Log in to continue</label>
+						<input
+							ref={usernameInputRef}
+							type="text"
+							value={username}
+							onInput={(e) => setUsername((e.target as HTMLInputElement).value)}
+							placeholder="name"
+							autoComplete="username"
+							autoFocus
+						/>
 						<input
-							ref={passwordInputRef}
 							type="password"
 							value={password}
-							onInput={handlePasswordChange}
+							onInput={(e) => {
+								setPassword((e.target as HTMLInputElement).value);
+								setLoginError(null);
+							}}
 							placeholder="password"
-							autoFocus
-							class={passwordError ? "error" : ""}
+							autoComplete="current-password"
+							class={loginError ? "error" : ""}
 						/>
-						<button type="submit" disabled={!password.trim()}>
-							Enter
+						<button
+							type="submit"
+							disabled={loggingIn || !username.trim() || !password}
+						>
+							Log in
 						</button>
-						{passwordError && <span class="password-error">Invalid password</span>}
+						{loginError && <span class="password-error">{loginError}</span>}
 					</form>
 				) : (
 					<>
-						<div class="config-editor-messages">
-							{messages.length === 0 && (
-								<div class="config-editor-empty">
-									Tell me what to change in the config.
-									<br />
-									<span class="example">
-										e.g., "Add my birthday on March 16"
-									</span>
-								</div>
+						<div class="config-editor-tabs">
+							{canEdit && (
+								<button
+									class={tab === "chat" ? "active" : ""}
+									onClick={() => setTab("chat")}
+								>
+									Chat
+								</button>
 							)}
-							{messages.map((msg, i) => (
-								<div key={i} class={`message ${msg.role}`}>
-									<div class="message-content">{msg.content}</div>
-									{msg.commitUrl && (
-										<a
-											href={msg.commitUrl}
-											target="_blank"
-											rel="noopener noreferrer"
-											class="commit-link"
-										>
-											View commit
-										</a>
-									)}
-								</div>
-							))}
-							{loading && (
-								<div class="message assistant loading">
-									<span class="typing-indicator">...</span>
-								</div>
+							{canEdit && (
+								<button
+									class={tab === "milestones" ? "active" : ""}
+									onClick={() => setTab("milestones")}
+								>
+									Milestones
+								</button>
 							)}
-							<div ref={messagesEndRef} />
+							<button
+								class={tab === "history" ? "active" : ""}
+								onClick={() => setTab("history")}
+							>
+								History
+							</button>
 						</div>
 
-						<form class="config-editor-input" onSubmit={handleSubmit}>
-							<input
-								ref={inputRef}
-								type="text"
-								value={input}
-								onInput={(e) => setInput((e.target as HTMLInputElement).value)}
-								placeholder="What would you like to change?"
-								disabled={loading}
-							/>
-							<button type="submit" disabled={loading || !input.trim()}>
-								Send
-							</button>
-						</form>
+						{tab === "history" || !canEdit ? (
+							<div class="config-editor-messages">
+								<HistoryPanel onUnauthorized={handleUnauthorized} />
+							</div>
+						) : tab === "milestones" ? (
+							<div class="config-editor-messages">
+								<MilestoneForm onUnauthorized={handleUnauthorized} />
+							</div>
+						) : (
+							<>
+								<div class="config-editor-messages">
+									{messages.length === 0 && (
+										<div class="config-editor-empty">
+											Tell me what to change in the config.
+											<br />
+											<span class="example">
+												e.g., "Add my birthday on March 16"
+											</span>
+										</div>
+									)}
+									{messages.map((msg, i) => (
+										<div key={i} class={`message ${msg.role}`}>
+											<div class="message-content">{msg.content}</div>
+											{msg.attempts && (
+												<details class="message-attempts">
+													<summary>
+														{msg.attempts.length === 1
+															? "1 rejected attempt"
+															: `${msg.attempts.length} rejected attempts`}
+													</summary>
+													<ol>
+														{msg.attempts.map((attempt, j) => (
+															<li key={j}>
+																{attempt.issues
+																	.map((issue) => issue.message)
+																	.join("; ")}
+															</li>
+														))}
+													</ol>
+												</details>
+											)}
+											{msg.warnings && (
+												<ul class="message-warnings">
+													{msg.warnings.map((warning, j) => (
+														<li key={j}>{warning}</li>
+													))}
+												</ul>
+											)}
+											{msg.proposal && (
+												<div class="proposal">
+													<DiffView diff={msg.proposal.diff} />
+													{msg.proposal.status === "accepted" ? (
+														<span class="proposal-status">Accepted</span>
+													) : msg.proposal.status === "rejected" ? (
+														<span class="proposal-status">Rejected</span>
+													) : msg.proposal.status === "stale" ? (
+														<span class="proposal-status">Outdated</span>
+													) : (
+														<div class="proposal-actions">
+															<button
+																class="accept"
+																disabled={msg.proposal.status === "confirming"}
+																onClick={() => handleAccept(i, msg.proposal!)}
+															>
+																Accept
+															</button>
+															<button
+																class="reject"
+																disabled={msg.proposal.status === "confirming"}
+																onClick={() =>
+																	updateProposal(i, { status: "rejected" })
+																}
+															>
+																Reject
+															</button>
+														</div>
+													)}
+												</div>
+											)}
+											{msg.pullRequest ? (
+												<div class="commit-actions">
+													<a
+														href={msg.pullRequest.url}
+														target="_blank"
+														rel="noopener noreferrer"
+														class="commit-link"
+													>
+														Pull request #{msg.pullRequest.number}
+													</a>
+													{msg.pullRequestState === "merged" ? (
+														<span class="undo-status">Merged</span>
+													) : msg.pullRequestState === "closed" ? (
+														<span class="undo-status">Closed</span>
+													) : (
+														<>
+															<button
+																class="merge-button"
+																disabled={msg.pullRequestState !== undefined}
+																onClick={() =>
+																	handlePullRequest(
+																		i,
+																		msg.pullRequest!,
+																		"merge",
+																	)
+																}
+															>
+																Merge
+															</button>
+															<button
+																class="undo-button"
+																disabled={msg.pullRequestState !== undefined}
+																onClick={() =>
+																	handlePullRequest(
+																		i,
+																		msg.pullRequest!,
+																		"close",
+																	)
+																}
+															>
+																Close
+															</button>
+														</>
+													)}
+												</div>
+											) : (
+												msg.commitSha && (
+													<div class="commit-actions">
+														{msg.commitUrl && (
+															<a
+																href={msg.commitUrl}
+																target="_blank"
+																rel="noopener noreferrer"
+																class="commit-link"
+															>
+																View commit
+															</a>
+														)}
+														{msg.undo === "done" ? (
+															<span class="undo-status">Undone</span>
+														) : (
+															<button
+																class="undo-button"
+																disabled={msg.undo === "pending"}
+																onClick={() => handleUndo(i, msg.commitSha!)}
+															>
+																Undo
+															</button>
+														)}
+													</div>
+												)
+											)}
+										</div>
+									))}
+									{streaming?.content ? (
+										<div class="message assistant">
+											<div class="message-content">{streaming.content}</div>
+											{streaming.phase && streaming.phase !== "generating" && (
+												<span class="message-phase">
+													{PHASE_LABELS[streaming.phase]}
+												</span>
+											)}
+										</div>
+									) : (
+										loading && (
+											<div class="message assistant loading">
+												<span class="typing-indicator">
+													{streaming?.phase
+														? PHASE_LABELS[streaming.phase]
+														: "..."}
+												</span>
+											</div>
+										)
+									)}
+									<div ref={messagesEndRef} />
+								</div>
+
+								<form class="config-editor-input" onSubmit={handleSubmit}>
+									<input
+										ref={inputRef}
+										type="text"
+										value={input}
+										onInput={(e) =>
+											setInput((e.target as HTMLInputElement).value)
+										}
+										placeholder="What would you like to change?"
+										disabled={loading}
+									/>
+									<button type="submit" disabled={loading || !input.trim()}>
+										Send
+									</button>
+								</form>
+							</>
+						)}
 					</>
 				)}
+
+				{toast && (
+					<div class="config-editor-toast">
+						{toast.text}
+						{toast.url && (
+							<a href={toast.url} target="_blank" rel="noopener noreferrer">
+								View commit
+							</a>
+						)}
+					</div>
+				)}
 			</div>
 		</div>
 	);
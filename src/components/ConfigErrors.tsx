@@ -0,0 +1,69 @@
+import { useState } from "preact/hooks";
+import { ConfigEditor } from "./ConfigEditor";
+
+type ConfigErrorViewProps = {
+	issues: string[];
+};
+
+// Shown instead of the tracker when there is no valid config at all, so it
+// can still be fixed from the editor
+export function ConfigErrorView({ issues }: ConfigErrorViewProps) {
+	const [showConfigEditor, setShowConfigEditor] = useState(false);
+
+	return (
+		<div class="config-error-view">
+			<h1>The config can't be shown</h1>
+			<ul class="config-error-issues">
+				{issues.map((issue, i) => (
+					<li key={i}>{issue}</li>
+				))}
+			</ul>
+			<button
+				class="config-error-button"
+				onClick={() => setShowConfigEditor(true)}
+			>
+				Edit config
+			</button>
+			{showConfigEditor && (
+				<ConfigEditor onClose={() => setShowConfigEditor(false)} />
+			)}
+		</div>
+	);
+}
+
+type ConfigIssuesBannerProps = {
+	issues: string[];
+	onEdit: () => void;
+};
+
+// Shown over the tracker when a newer config arrived but couldn't be used
+export function ConfigIssuesBanner({
+	issues,
+	onEdit,
+}: ConfigIssuesBannerProps) {
+	const [dismissed, setDismissed] = useState(false);
+	if (dismissed) return null;
+
+	return (
+		<div class="config-issues-banner" role="alert">
+			<div class="config-issues-header">
+				<span>The latest config has problems, so an older one is shown.</span>
+				<button
+					class="config-issues-close"
+					aria-label="Dismiss"
+					onClick={() => setDismissed(true)}
+				>
+					×
+				</button>
+			</div>
+			<ul class="config-error-issues">
+				{issues.map((issue, i) => (
+					<li key={i}>{issue}</li>
+				))}
+			</ul>
+			<button class="config-issues-edit" onClick={onEdit}>
+				Fix it in the editor
+			</button>
+		</div>
+	);
+}
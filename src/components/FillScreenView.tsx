@@ -28,6 +28,20 @@ function addDays(date: Date, days: number): Date {
 	return result;
 }
 
+// Labels shown in a day's cell: its milestones, or "Today" on a plain today
+function dayAnnotation(
+	day: DayInfo,
+	todayEmoji: string,
+): { text: string; emoji: string } | null {
+	if (day.milestones.length) {
+		return {
+			text: day.milestones.map((m) => m.label).join(" · "),
+			emoji: day.milestones.map((m) => m.emoji).join(""),
+		};
+	}
+	return day.isToday ? { text: "Today", emoji: todayEmoji } : null;
+}
+
 type AnnotationTextProps = {
 	text: string;
 	emoji: string;
@@ -109,7 +123,7 @@ type FillScreenViewProps = {
 	showAnnotationDate: boolean;
 	selectedDayIndex: number | null;
 	startDate: Date;
-	annotationEmojis: Record<string, string>;
+	todayEmoji: string;
 	onDayClick: (e: MouseEvent, day: DayInfo) => void;
 };
 
@@ -119,7 +133,7 @@ export function FillScreenView({
 	showAnnotationDate,
 	selectedDayIndex,
 	startDate,
-	annotationEmojis,
+	todayEmoji,
 	onDayClick,
 }: FillScreenViewProps) {
 	const totalDays = days.length;
@@ -156,71 +170,80 @@ export function FillScreenView({
 				height: "100%",
 			}}
 		>
-			{days.map((day) => (
-				<div
-					key={day.index}
-					class={`day ${day.passed ? "passed" : "future"} ${day.color ? "milestone" : ""} ${day.isUncoloredMilestone || day.color === "subtle" ? "uncolored-milestone" : ""} ${day.isOddWeek ? "odd-week" : "even-week"} ${day.isToday ? "today" : ""} ${day.annotation ? "has-annotation" : ""} ${selectedDayIndex === day.index ? "selected" : ""} ${highlightedDays.value.indices.has(day.index) ? "highlighted" : ""}`}
-					style={{
-						...(day.isToday ? { viewTransitionName: "today-marker" } : {}),
-						...(day.color && day.color !== "subtle"
-							? day.isToday
+			{days.map((day) => {
+				const annotation = dayAnnotation(day, todayEmoji);
+				return (
+					<div
+						key={day.index}
+						class={`day ${day.passed ? "passed" : "future"} ${day.color ? "milestone" : ""} ${day.isUncoloredMilestone || day.color === "subtle" ? "uncolored-milestone" : ""} ${day.milestones.length > 1 ? "multiple-milestones" : ""} ${day.isOddWeek ? "odd-week" : "even-week"} ${day.isToday ? "today" : ""} ${annotation ? "has-annotation" : ""} ${selectedDayIndex === day.index ? "selected" : ""} ${highlightedDays.value.indices.has(day.index) ? "highlighted" : ""}`}
+						data-milestones={
+							day.milestones.length > 1 ? day.milestones.length : undefined
+						}
+						style={{
+							...(day.isToday ? { viewTransitionName: "today-marker" } : {}),
+							...(day.color && day.color !== "subtle"
+								? day.isToday
+									? {
+											"--day-target-bg": `var(--color-${day.color})`,
+											"--day-target-color": `var(--color-${day.color}-text)`,
+										}
+									: {
+											background: `var(--color-${day.color})`,
+											color: `var(--color-${day.color}-text)`,
+										}
+								: {}),
+							...(highlightedDays.value.indices.has(day.index) &&
+							highlightedDays.value.color
 								? {
-										"--day-target-bg": `var(--color-${day.color})`,
-										"--day-target-color": `var(--color-${day.color}-text)`,
-									}
-								: {
-										background: `var(--color-${day.color})`,
-										color: `var(--color-${day.color}-text)`,
+										"--highlight-color": `var(--color-${highlightedDays.value.color})`,
 									}
-							: {}),
-						...(highlightedDays.value.indices.has(day.index) &&
-						highlightedDays.value.color
-							? {
-									"--highlight-color": `var(--color-${highlightedDays.value.color})`,
-								}
-							: {}),
-					}}
-					onPointerDown={(e) => e.stopPropagation()}
-					onClick={(e) => onDayClick(e as unknown as MouseEvent, day)}
-				>
-					{day.annotation ? (
-						cellSize >= 50 ? (
-							<>
-								<span class="date-label" style={{ fontSize: `${fontSize}px` }}>
-									{formatDate(addDays(startDate, day.index))}
-								</span>
-								<AnnotationText
-									text={day.annotation}
-									emoji={annotationEmojis[day.annotation] || day.annotation}
-									fontSize={fontSize}
-									className="annotation-text visible"
-								/>
-							</>
-						) : (
-							<span
-								class="annotation-container"
-								style={{ fontSize: `${fontSize}px` }}
-							>
-								<AnnotationText
-									text={day.annotation}
-									emoji={annotationEmojis[day.annotation] || day.annotation}
-									fontSize={fontSize}
-									className={`annotation-text ${showAnnotationDate ? "hidden" : "visible"}`}
-								/>
+								: {}),
+						}}
+						onPointerDown={(e) => e.stopPropagation()}
+						onClick={(e) => onDayClick(e as unknown as MouseEvent, day)}
+					>
+						{annotation ? (
+							cellSize >= 50 ? (
+								<>
+									<span
+										class="date-label"
+										style={{ fontSize: `${fontSize}px` }}
+									>
+										{formatDate(addDays(startDate, day.index))}
+									</span>
+									<AnnotationText
+										text={annotation.text}
+										emoji={annotation.emoji}
+										fontSize={fontSize}
+										className="annotation-text visible"
+									/>
+								</>
+							) : (
 								<span
-									class={`annotation-date ${showAnnotationDate ? "visible" : "hidden"}`}
+									class="annotation-container"
+									style={{ fontSize: `${fontSize}px` }}
 								>
-									{formatDate(addDays(startDate, day.index))}
+									<AnnotationText
+										text={annotation.text}
+										emoji={annotation.emoji}
+										fontSize={fontSize}
+										className={`annotation-text ${showAnnotationDate ? "hidden" : "visible"}`}
+									/>
+									<span
+										class={`annotation-date ${showAnnotationDate ? "visible" : "hidden"}`}
+									>
+										{formatDate(addDays(startDate, day.index))}
+									</span>
 								</span>
+							)
+						) : (
+							<span class="date-label" style={{ fontSize: `${fontSize}px` }}>
+								{day.dateLabel}
 							</span>
-						)
-					) : (
-						<span class="date-label" style={{ fontSize: `${fontSize}px` }}>
-							{day.dateLabel}
-						</span>
-					)}
-				</div>
-			))}
+						)}
+					</div>
+				);
+			})}
 		</div>
 	);
 }
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "preact/hooks";
+import { apiFetch, retryAfterMessage } from "../api";
+import {
+	DiffView,
+	formatRange,
+	type ConfigDiff,
+	type DiffMilestone,
+} from "./ConfigDiffView";
+
+type HistoryEntry = {
+	sha: string;
+	// Null unless the config is stored on GitHub
+	url: string | null;
+	message: string;
+	author: string;
+	date: string;
+	diff: ConfigDiff | null;
+};
+
+type Version = {
+	sha: string;
+	milestones: DiffMilestone[];
+};
+
+type Props = {
+	onUnauthorized: () => void;
+};
+
+// Config editor commits carry this prefix; strip it for display
+const COMMIT_PREFIX = "[Config Editor] ";
+
+function formatMessage(message: string): string {
+	const summary = message.split("\n")[0];
+	return summary.startsWith(COMMIT_PREFIX)
+		? summary.slice(COMMIT_PREFIX.length)
+		: summary;
+}
+
+function formatTimestamp(iso: string): string {
+	return new Date(iso).toLocaleString(undefined, {
+		day: "numeric",
+		month: "short",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+export function HistoryPanel({ onUnauthorized }: Props) {
+	const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [version, setVersion] = useState<Version | null>(null);
+	const [loadingSha, setLoadingSha] = useState<string | null>(null);
+
+	useEffect(() => {
+		const load = async () => {
+			try {
+				const response = await apiFetch("/history");
+				if (response.status === 401) {
+					onUnauthorized();
+					return;
+				}
+				const data = await response.json();
+				if (response.status === 429) {
+					setError(retryAfterMessage(data.retryAfter));
+				} else if (data.error) {
+					setError(`Error: ${data.error}`);
+				} else {
+					setEntries(data.commits);
+				}
+			} catch (err) {
+				setError("Failed to connect to server");
+			}
+		};
+		load();
+	}, []);
+
+	const handleView = async (sha: string) => {
+		if (version?.sha === sha) {
+			setVersion(null);
+			return;
+		}
+		setLoadingSha(sha);
+		try {
+			const response = await apiFetch(`/history/${sha}`);
+			if (response.status === 401) {
+				onUnauthorized();
+				return;
+			}
+			const data = await response.json();
+			if (response.status === 429) {
+				setError(retryAfterMessage(data.retryAfter));
+			} else if (data.error) {
+				setError(`Error: ${data.error}`);
+			} else {
+				setVersion({ sha, milestones: data.config.milestones });
+			}
+		} catch (err) {
+			setError("Failed to connect to server");
+		} finally {
+			setLoadingSha(null);
+		}
+	};
+
+	if (error) {
+		return <div class="config-editor-empty">{error}</div>;
+	}
+
+	if (!entries) {
+		return (
+			<div class="config-editor-empty">
+				<span class="typing-indicator">...</span>
+			</div>
+		);
+	}
+
+	return (
+		<div class="history-list">
+			{entries.map((entry) => (
+				<div key={entry.sha} class="history-entry">
+					<div class="history-entry-header">
+						<span class="history-message">{formatMessage(entry.message)}</span>
+						<span class="history-meta">
+							{entry.author} · {formatTimestamp(entry.date)}
+						</span>
+					</div>
+					{entry.diff && <DiffView diff={entry.diff} />}
+					<div class="commit-actions">
+						{entry.url && (
+							<a
+								href={entry.url}
+								target="_blank"
+								rel="noopener noreferrer"
+								class="commit-link"
+							>
+								View commit
+							</a>
+						)}
+						<button
+							class="history-view-button"
+							disabled={loadingSha === entry.sha}
+							onClick={() => handleView(entry.sha)}
+						>
+							{version?.sha === entry.sha
+								? "Hide milestones"
+								: "View milestones"}
+						</button>
+					</div>
+					{version?.sha === entry.sha && (
+						<ul class="history-milestones">
+							{version.milestones.map((m, i) => (
+								<li key={i}>
+									{m.emoji} {m.label} ({formatRange(m)})
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			))}
+		</div>
+	);
+}
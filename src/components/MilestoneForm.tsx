@@ -0,0 +1,464 @@
+import { useEffect, useState } from "preact/hooks";
+import { apiFetch, retryAfterMessage } from "../api";
+import { refreshConfig } from "../config";
+import { describeOffset } from "../offsets";
+import { describeRecurrence } from "../recurrence";
+import {
+	MILESTONE_COLORS,
+	type MilestoneJSON,
+	type PregnancyOffsetJSON,
+	type RecurrenceJSON,
+} from "../schema";
+
+// A milestone being edited. Optional fields are "" while empty, and key
+// keeps inputs attached to their row when rows are added or removed. New
+// rows have no id until the worker assigns one on save. Offsets and
+// recurrence are only edited in the chat, so the form passes them through
+// unchanged, in place of the dates they stand for.
+type Row = {
+	key: number;
+	id?: string;
+	date: string;
+	offset?: PregnancyOffsetJSON;
+	endDate: string;
+	endOffset?: PregnancyOffsetJSON;
+	label: string;
+	emoji: string;
+	color: string;
+	description: string;
+	recurrence?: RecurrenceJSON;
+};
+
+type Field = Exclude<
+	keyof Row,
+	"key" | "id" | "offset" | "endOffset" | "recurrence"
+>;
+
+type ConfigIssue = {
+	path: string;
+	message: string;
+	severity: "error" | "warning";
+};
+
+type PullRequest = { number: number; url: string };
+
+// Where the last save went; pullRequest is set in pull request mode
+type Saved = {
+	pullRequest?: PullRequest;
+	// Whether the save went into a pull request an earlier one opened
+	updated?: boolean;
+};
+
+type Props = {
+	onUnauthorized: () => void;
+};
+
+const EMOJIS = [
+	"🩺",
+	"🩻",
+	"🔬",
+	"💉",
+	"💊",
+	"🏥",
+	"👶",
+	"🍼",
+	"🎉",
+	"🎂",
+	"🎁",
+	"✈️",
+	"🏖️",
+	"🏠",
+	"❤️",
+	"⭐",
+	"✨",
+	"📅",
+	"📸",
+	"🌸",
+];
+
+let nextKey = 0;
+
+function toRow(milestone: MilestoneJSON): Row {
+	return {
+		key: nextKey++,
+		id: milestone.id,
+		date: milestone.date ?? "",
+		offset: milestone.offset,
+		endDate: milestone.endDate ?? "",
+		endOffset: milestone.endOffset,
+		label: milestone.label,
+		emoji: milestone.emoji,
+		color: milestone.color ?? "",
+		description: milestone.description ?? "",
+		recurrence: milestone.recurrence,
+	};
+}
+
+function toMilestone({
+	id,
+	date,
+	offset,
+	endDate,
+	endOffset,
+	label,
+	emoji,
+	color,
+	description,
+	recurrence,
+}: Row): MilestoneJSON {
+	return {
+		...(id && { id }),
+		...(offset ? { offset } : { date }),
+		...(endOffset ? { endOffset } : endDate && { endDate }),
+		label: label.trim(),
+		emoji,
+		...(color && { color }),
+		...(description.trim() && { description: description.trim() }),
+		...(recurrence && { recurrence }),
+	};
+}
+
+const FIELDS: Field[] = [
+	"date",
+	"endDate",
+	"label",
+	"emoji",
+	"color",
+	"description",
+];
+
+// "milestones.3.endDate" -> [3, "endDate"], "milestones.3" -> [3, undefined];
+// null for issues that aren't about one field of a row
+function issueTarget(path: string): [number, Field | undefined] | null {
+	const match = /^milestones\.(\d+)(?:\.(\w+))?$/.exec(path);
+	if (!match) return null;
+	const field = match[2] as Field | undefined;
+	return field === undefined || FIELDS.includes(field)
+		? [Number(match[1]), field]
+		: null;
+}
+
+export function MilestoneForm({ onUnauthorized }: Props) {
+	const [baseSha, setBaseSha] = useState<string | null>(null);
+	const [rows, setRows] = useState<Row[]>([]);
+	const [issues, setIssues] = useState<ConfigIssue[]>([]);
+	const [error, setError] = useState<string | null>(null);
+	const [conflict, setConflict] = useState(false);
+	const [saving, setSaving] = useState(false);
+	const [saved, setSaved] = useState<Saved | null>(null);
+	// Pull request opened by an earlier save, which later saves update
+	// until the form is reloaded, rather than opening another
+	const [pullRequest, setPullRequest] = useState<PullRequest | null>(null);
+	const [pickerFor, setPickerFor] = useState<number | null>(null);
+
+	const load = async (): Promise<boolean> => {
+		try {
+			const response = await apiFetch("/milestones");
+			if (response.status === 401) {
+				onUnauthorized();
+				return false;
+			}
+			const data = await response.json();
+			if (data.error) {
+				setError(`Error: ${data.error}`);
+				return false;
+			}
+			setBaseSha(data.sha);
+			setRows(data.milestones.map(toRow));
+			setPullRequest(null);
+			setConflict(false);
+			setError(null);
+			return true;
+		} catch (err) {
+			setError("Failed to connect to server");
+			return false;
+		}
+	};
+
+	useEffect(() => {
+		load();
+	}, []);
+
+	const update = (key: number, field: Field, value: string) => {
+		setRows((prev) =>
+			prev.map((row) => (row.key === key ? { ...row, [field]: value } : row)),
+		);
+		setSaved(null);
+	};
+
+	const handleAdd = () => {
+		const today = new Date().toISOString().slice(0, 10);
+		setRows((prev) => [
+			...prev,
+			toRow({ date: today, label: "", emoji: "⭐" }),
+		]);
+		setSaved(null);
+	};
+
+	const handleRemove = (key: number) => {
+		setRows((prev) => prev.filter((row) => row.key !== key));
+		setIssues([]);
+		setSaved(null);
+	};
+
+	const handleSave = async () => {
+		setSaving(true);
+		setError(null);
+		setIssues([]);
+		try {
+			const response = await apiFetch("/milestones", {
+				method: "PUT",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					baseSha,
+					milestones: rows.map(toMilestone),
+					pullRequest: pullRequest?.number,
+				}),
+			});
+			if (response.status === 401) {
+				onUnauthorized();
+				return;
+			}
+			const data = await response.json();
+			if (response.status === 429) {
+				setError(retryAfterMessage(data.retryAfter));
+			} else if (response.status === 409) {
+				setConflict(true);
+			} else if (data.issues) {
+				setIssues(data.issues);
+			} else if (data.error) {
+				setError(`Error: ${data.error}`);
+			} else if (data.pullRequest) {
+				// The edit waits in a pull request, so the config hasn't changed
+				// yet; keep showing the edited rows in their saved order
+				setRows(data.config.milestones.map(toRow));
+				setIssues(data.warnings ?? []);
+				setSaved({ pullRequest: data.pullRequest, updated: !!pullRequest });
+				setPullRequest(data.pullRequest);
+			} else {
+				refreshConfig();
+				// Saved rows come back sorted by date, which is the order the
+				// warnings refer to
+				if (await load()) {
+					setIssues(data.warnings ?? []);
+					setSaved({});
+				}
+			}
+		} catch (err) {
+			setError("Failed to connect to server");
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	if (!baseSha) {
+		return (
+			<div class="config-editor-empty">
+				{error ?? <span class="typing-indicator">...</span>}
+			</div>
+		);
+	}
+
+	const rowIssues = (index: number, field?: Field) =>
+		issues.filter((issue) => {
+			const target = issueTarget(issue.path);
+			return target && target[0] === index && target[1] === field;
+		});
+	const otherIssues = issues.filter((issue) => {
+		const target = issueTarget(issue.path);
+		return !target || target[0] >= rows.length;
+	});
+
+	const renderIssues = (list: ConfigIssue[]) =>
+		list.length > 0 && (
+			<ul class="milestone-form-issues">
+				{list.map((issue, i) => (
+					<li key={i} class={issue.severity}>
+						{issue.message}
+					</li>
+				))}
+			</ul>
+		);
+
+	const inputClass = (index: number, field: Field) =>
+		rowIssues(index, field).some((issue) => issue.severity === "error")
+			? "error"
+			: "";
+
+	return (
+		<div class="milestone-form">
+			{conflict && (
+				<div class="milestone-form-banner">
+					Someone else changed the config since you opened it.
+					<button class="history-view-button" onClick={load}>
+						Reload and discard my changes
+					</button>
+				</div>
+			)}
+			{error && <div class="milestone-form-banner">{error}</div>}
+			{renderIssues(otherIssues)}
+
+			{rows.map((row, index) => (
+				<div key={row.key} class="milestone-form-row">
+					<div class="milestone-form-line">
+						<button
+							type="button"
+							class="milestone-form-emoji"
+							aria-label="Pick an emoji"
+							onClick={() =>
+								setPickerFor(pickerFor === row.key ? null : row.key)
+							}
+						>
+							{row.emoji || "?"}
+						</button>
+						<input
+							type="text"
+							value={row.label}
+							placeholder="Label"
+							class={inputClass(index, "label")}
+							onInput={(e) => update(row.key, "label", e.currentTarget.value)}
+						/>
+						<button
+							type="button"
+							class="milestone-form-remove"
+							aria-label={`Remove ${row.label || "milestone"}`}
+							onClick={() => handleRemove(row.key)}
+						>
+							×
+						</button>
+					</div>
+					{pickerFor === row.key && (
+						<div class="milestone-form-picker">
+							<input
+								type="text"
+								value={row.emoji}
+								placeholder="Any emoji"
+								class={inputClass(index, "emoji")}
+								onInput={(e) => update(row.key, "emoji", e.currentTarget.value)}
+							/>
+							{EMOJIS.map((emoji) => (
+								<button
+									key={emoji}
+									type="button"
+									class={row.emoji === emoji ? "active" : ""}
+									onClick={() => {
+										update(row.key, "emoji", emoji);
+										setPickerFor(null);
+									}}
+								>
+									{emoji}
+								</button>
+							))}
+						</div>
+					)}
+					{renderIssues([
+						...rowIssues(index, "label"),
+						...rowIssues(index, "emoji"),
+					])}
+
+					<div class="milestone-form-line">
+						{row.offset ? (
+							<span class="milestone-form-offset">
+								{describeOffset(row.offset)}
+							</span>
+						) : (
+							<input
+								type="date"
+								value={row.date}
+								aria-label="Date"
+								class={inputClass(index, "date")}
+								onInput={(e) => update(row.key, "date", e.currentTarget.value)}
+							/>
+						)}
+						<span class="milestone-form-to">to</span>
+						{row.endOffset ? (
+							<span class="milestone-form-offset">
+								{describeOffset(row.endOffset)}
+							</span>
+						) : (
+							<input
+								type="date"
+								value={row.endDate}
+								aria-label="End date (optional)"
+								class={inputClass(index, "endDate")}
+								onInput={(e) =>
+									update(row.key, "endDate", e.currentTarget.value)
+								}
+							/>
+						)}
+					</div>
+					{row.recurrence && (
+						<div class="milestone-form-repeats">
+							{describeRecurrence(row.recurrence)}
+						</div>
+					)}
+					{renderIssues([
+						...rowIssues(index, "date"),
+						...rowIssues(index, "endDate"),
+					])}
+
+					<div class="milestone-form-swatches">
+						<button
+							type="button"
+							class={`milestone-form-swatch none${row.color === "" ? " active" : ""}`}
+							aria-label="No colour"
+							onClick={() => update(row.key, "color", "")}
+						/>
+						{MILESTONE_COLORS.map((color) => (
+							<button
+								key={color}
+								type="button"
+								class={`milestone-form-swatch${row.color === color ? " active" : ""}`}
+								style={{ background: `var(--color-${color})` }}
+								aria-label={color}
+								onClick={() => update(row.key, "color", color)}
+							/>
+						))}
+					</div>
+					{renderIssues(rowIssues(index, "color"))}
+
+					<textarea
+						value={row.description}
+						placeholder="Description (optional)"
+						rows={2}
+						class={inputClass(index, "description")}
+						onInput={(e) =>
+							update(row.key, "description", e.currentTarget.value)
+						}
+					/>
+					{renderIssues([
+						...rowIssues(index),
+						...rowIssues(index, "description"),
+					])}
+				</div>
+			))}
+
+			<div class="milestone-form-actions">
+				<button type="button" class="milestone-form-add" onClick={handleAdd}>
+					Add milestone
+				</button>
+				{saved?.pullRequest ? (
+					<a
+						href={saved.pullRequest.url}
+						target="_blank"
+						rel="noopener noreferrer"
+						class="commit-link"
+					>
+						{saved.updated ? "Updated" : "Opened"} pull request #
+						{saved.pullRequest.number}
+					</a>
+				) : (
+					saved && <span class="proposal-status">Saved</span>
+				)}
+				<button
+					type="button"
+					class="milestone-form-save"
+					disabled={saving || conflict}
+					onClick={handleSave}
+				>
+					{saving ? "Saving…" : "Save"}
+				</button>
+			</div>
+		</div>
+	);
+}
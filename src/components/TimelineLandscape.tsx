@@ -240,7 +240,6 @@ function layoutLandscapeMilestones(
 	milestones: BaseMilestone[],
 	containerWidth: number,
 	maxHeight: number,
-	annotationEmojis: Record<string, string>,
 ): MilestoneWithLayout[] {
 	if (milestones.length === 0 || containerWidth <= 0 || maxHeight <= 0) {
 		return [];
@@ -250,8 +249,8 @@ function layoutLandscapeMilestones(
 
 	// Calculate width and center position for each milestone
 	const inputLayouts = milestones.map((m) => {
-		const hasEmoji = !!annotationEmojis[m.annotation];
-		const textWidth = measureTextWidth(m.annotation, font);
+		const hasEmoji = !!m.emoji;
+		const textWidth = measureTextWidth(m.label, font);
 		const naturalWidth = textWidth + MILESTONE_PADDING + (hasEmoji ? EMOJI_WIDTH : 0);
 		const centerPx = (m.position / 100) * containerWidth;
 
@@ -285,13 +284,14 @@ function computeGanttBars(
 	const font = "600 11px Inter, -apple-system, BlinkMacSystemFont, sans-serif";
 
 	const bars: Omit<GanttBarLandscape, "barRow" | "labelTop" | "labelExpanded">[] = [];
-	for (const [label, range] of Object.entries(rangeMilestoneLookup)) {
+	for (const [id, range] of Object.entries(rangeMilestoneLookup)) {
 		const startPosition = (range.startIndex / totalDays) * 100;
 		const endPosition = (range.endIndex / totalDays) * 100;
-		const textWidth = measureTextWidth(label, font);
+		const textWidth = measureTextWidth(range.label, font);
 		const labelWidth = textWidth + MILESTONE_PADDING + EMOJI_WIDTH;
 		bars.push({
-			label,
+			id,
+			label: range.label,
 			startPosition,
 			endPosition,
 			width: endPosition - startPosition,
@@ -374,7 +374,6 @@ type TimelineLandscapeProps = {
 	todayPosition: number;
 	totalDays: number;
 	selectedDayIndex: number | null;
-	annotationEmojis: Record<string, string>;
 	onDayClick: (e: MouseEvent, day: DayInfo) => void;
 	windowWidth: number;
 	windowHeight: number;
@@ -390,7 +389,6 @@ export function TimelineLandscape({
 	todayPosition,
 	totalDays,
 	selectedDayIndex,
-	annotationEmojis,
 	onDayClick,
 	windowWidth,
 	windowHeight,
@@ -421,9 +419,8 @@ export function TimelineLandscape({
 			baseMilestones,
 			containerWidth,
 			maxMilestoneHeight,
-			annotationEmojis,
 		);
-	}, [baseMilestones, containerWidth, maxMilestoneHeight, annotationEmojis]);
+	}, [baseMilestones, containerWidth, maxMilestoneHeight]);
 
 	// Compute actual height needed based on layout results
 	const milestonesHeight = useMemo(() => {
@@ -485,7 +482,7 @@ export function TimelineLandscape({
 						const stemHeight = BASE_STEM_HEIGHT + m.topPx;
 						return (
 							<div
-								key={`stem-${m.index}`}
+								key={`stem-${m.id}`}
 								class={`timeline-milestone-landscape ${m.color ? `colored color-${m.color}` : ""} ${highlightedDays.value.indices.has(m.index) ? "highlighted" : ""}`}
 								style={{
 									left: `${m.position}%`,
@@ -512,7 +509,7 @@ export function TimelineLandscape({
 						const stemHeight = BASE_STEM_HEIGHT + m.topPx;
 						return (
 							<div
-								key={`label-${m.index}`}
+								key={`label-${m.id}`}
 								class={`timeline-milestone-landscape ${m.color ? `colored color-${m.color}` : ""} ${m.isToday ? "today" : ""} ${selectedDayIndex === m.index ? "selected" : ""} ${highlightedDays.value.indices.has(m.index) ? "highlighted" : ""}`}
 								style={{
 									left: `${m.position}%`,
@@ -534,9 +531,9 @@ export function TimelineLandscape({
 										onClick={(e) => onDayClick(e as unknown as MouseEvent, m)}
 									>
 										<span class="timeline-milestone-emoji">
-											{annotationEmojis[m.annotation] || ""}
+											{m.emoji}
 										</span>
-										<span class="timeline-milestone-label">{m.annotation}</span>
+										<span class="timeline-milestone-label">{m.label}</span>
 									</div>
 								) : (
 									<div
@@ -544,7 +541,7 @@ export function TimelineLandscape({
 										onClick={(e) => onDayClick(e as unknown as MouseEvent, m)}
 									>
 										<span class="timeline-milestone-emoji">
-											{annotationEmojis[m.annotation] || ""}
+											{m.emoji}
 										</span>
 									</div>
 								)}
@@ -644,7 +641,7 @@ export function TimelineLandscape({
 								);
 								return (
 									<div
-										key={`bar-${bar.label}`}
+										key={`bar-${bar.id}`}
 										class={`timeline-gantt-bar-landscape ${bar.color ? `colored color-${bar.color}` : ""} ${isHighlighted ? "highlighted" : ""}`}
 										style={{
 											left: `${bar.startPosition}%`,
@@ -682,7 +679,7 @@ export function TimelineLandscape({
 									(bar.startPosition + bar.endPosition) / 2;
 								return (
 									<div
-										key={`label-${bar.label}`}
+										key={`label-${bar.id}`}
 										class={`timeline-gantt-item-landscape ${bar.color ? `colored color-${bar.color}` : ""} ${isHighlighted ? "highlighted" : ""} ${bar.labelExpanded ? "expanded" : "collapsed"}`}
 										style={{
 											left: `${centerPosition}%`,
@@ -232,13 +232,14 @@ function computeGanttBars(
 	const COLLAPSED_WIDTH = 24;
 
 	const bars: GanttBarBase[] = [];
-	for (const [label, range] of Object.entries(rangeMilestoneLookup)) {
+	for (const [id, range] of Object.entries(rangeMilestoneLookup)) {
 		const startPosition = (range.startIndex / totalDays) * 100;
 		const endPosition = (range.endIndex / totalDays) * 100;
-		const textWidth = measureTextWidth(label, font);
+		const textWidth = measureTextWidth(range.label, font);
 		const labelWidth = textWidth + MILESTONE_PADDING + EMOJI_WIDTH;
 		bars.push({
-			label,
+			id,
+			label: range.label,
 			startPosition,
 			endPosition,
 			width: endPosition - startPosition,
@@ -294,7 +295,6 @@ type TimelinePortraitProps = {
 	todayPosition: number;
 	totalDays: number;
 	selectedDayIndex: number | null;
-	annotationEmojis: Record<string, string>;
 	onDayClick: (e: MouseEvent, day: DayInfo) => void;
 	windowSize: { width: number; height: number };
 };
@@ -309,7 +309,6 @@ export function TimelinePortrait({
 	todayPosition,
 	totalDays,
 	selectedDayIndex,
-	annotationEmojis,
 	onDayClick,
 	windowSize,
 }: TimelinePortraitProps) {
@@ -396,7 +395,7 @@ export function TimelinePortrait({
 						{/* Vertical bars positioned absolutely */}
 						{ganttBars.map((bar) => (
 							<div
-								key={`bar-${bar.label}`}
+								key={`bar-${bar.id}`}
 								class={`timeline-gantt-bar-portrait ${bar.color ? `colored color-${bar.color}` : ""}`}
 								style={{
 									top: `${bar.startPosition}%`,
@@ -418,7 +417,7 @@ export function TimelinePortrait({
 							const stemWidth = 16 + bar.labelLeftPx;
 							return (
 								<div
-									key={`label-${bar.label}`}
+									key={`label-${bar.id}`}
 									class={`timeline-gantt-item-portrait ${bar.color ? `colored color-${bar.color}` : ""} ${bar.labelExpanded ? "expanded" : "collapsed"}`}
 									style={{
 										top: `${centerPosition}%`,
@@ -525,7 +524,7 @@ export function TimelinePortrait({
 						const stemWidth = 16 + PORTRAIT_MONTHS_WIDTH + contentOffset;
 						return (
 							<div
-								key={`stem-${m.index}`}
+								key={`stem-${m.id}`}
 								class={`timeline-milestone-portrait ${m.color ? `colored color-${m.color}` : ""}`}
 								style={{
 									top: `${m.topPx}px`,
@@ -546,7 +545,7 @@ export function TimelinePortrait({
 						const contentOffset = m.leftPx;
 						return (
 							<div
-								key={`label-${m.index}`}
+								key={`label-${m.id}`}
 								class={`timeline-milestone-portrait ${m.color ? `colored color-${m.color}` : ""} ${m.isToday ? "today" : ""} ${selectedDayIndex === m.index ? "selected" : ""} ${m.expanded ? "expanded" : "collapsed"}`}
 								style={{
 									top: `${m.topPx}px`,
@@ -562,9 +561,9 @@ export function TimelinePortrait({
 										onClick={(e) => onDayClick(e as unknown as MouseEvent, m)}
 									>
 										<span class="timeline-milestone-emoji">
-											{annotationEmojis[m.annotation] || ""}
+											{m.emoji}
 										</span>
-										<span class="timeline-milestone-label">{m.annotation}</span>
+										<span class="timeline-milestone-label">{m.label}</span>
 									</div>
 								) : (
 									<div
@@ -572,7 +571,7 @@ export function TimelinePortrait({
 										onClick={(e) => onDayClick(e as unknown as MouseEvent, m)}
 									>
 										<span class="timeline-milestone-emoji">
-											{annotationEmojis[m.annotation] || ""}
+											{m.emoji}
 										</span>
 									</div>
 								)}
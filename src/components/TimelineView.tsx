@@ -1,6 +1,6 @@
 import { useMemo } from "preact/hooks";
 import type { DayInfo } from "../types";
-import type { Milestone } from "./App";
+import type { Milestone } from "../config";
 import { TimelineLandscape } from "./TimelineLandscape";
 import { TimelinePortrait } from "./TimelinePortrait";
 import type {
@@ -43,7 +43,8 @@ function buildRangeMilestoneLookup(
 		if (m.endDate) {
 			const startIndex = getDaysBetween(startDate, m.date);
 			const endIndex = getDaysBetween(startDate, m.endDate);
-			lookup[m.label] = {
+			lookup[m.id] = {
+				label: m.label,
 				startIndex,
 				endIndex,
 				color: m.color,
@@ -70,7 +71,7 @@ type TimelineViewProps = {
 	startDate: Date;
 	onDayClick: (e: MouseEvent, day: DayInfo) => void;
 	selectedDayIndex: number | null;
-	annotationEmojis: Record<string, string>;
+	// With recurring milestones expanded, see milestoneOccurrences
 	milestones: Milestone[];
 };
 
@@ -80,7 +81,6 @@ export function TimelineView({
 	startDate,
 	onDayClick,
 	selectedDayIndex,
-	annotationEmojis,
 	milestones,
 }: TimelineViewProps) {
 	const totalDays = days.length;
@@ -130,18 +130,19 @@ export function TimelineView({
 
 	// Get base milestones (non-range) with positions - shared by both views
 	const baseMilestones = useMemo((): BaseMilestone[] => {
-		return days
-			.filter(
-				(d) =>
-					d.annotation &&
-					d.annotation !== "Today" &&
-					!rangeMilestoneLookup[d.annotation],
-			)
-			.map((d) => ({
-				...d,
-				position: (d.index / totalDays) * 100,
-			}));
-	}, [days, totalDays, rangeMilestoneLookup]);
+		return days.flatMap((d) =>
+			d.milestones
+				.filter((m) => m.endIndex === undefined)
+				.map((m) => ({
+					...d,
+					id: m.id,
+					label: m.label,
+					emoji: m.emoji,
+					color: m.color,
+					position: (d.index / totalDays) * 100,
+				})),
+		);
+	}, [days, totalDays]);
 
 	// Render appropriate view
 	if (isLandscape) {
@@ -156,7 +157,6 @@ export function TimelineView({
 				todayPosition={todayPosition}
 				totalDays={totalDays}
 				selectedDayIndex={selectedDayIndex}
-				annotationEmojis={annotationEmojis}
 				onDayClick={onDayClick}
 				windowWidth={windowSize.width}
 				windowHeight={windowSize.height}
@@ -175,7 +175,6 @@ export function TimelineView({
 			todayPosition={todayPosition}
 			totalDays={totalDays}
 			selectedDayIndex={selectedDayIndex}
-			annotationEmojis={annotationEmojis}
 			onDayClick={onDayClick}
 			windowSize={windowSize}
 		/>
@@ -1,4 +1,4 @@
-import type { DayInfo } from "../types";
+import type { DayInfo, DayMilestone } from "../types";
 import { CountdownTimer } from "./CountdownTimer";
 
 const MONTHS = [
@@ -87,8 +87,7 @@ type TooltipProps = {
 	windowSize: { width: number; height: number };
 	startDate: Date;
 	dueDate: Date;
-	annotationEmojis: Record<string, string>;
-	annotationDescriptions: Record<string, string>;
+	todayEmoji: string;
 };
 
 export function Tooltip({
@@ -97,8 +96,7 @@ export function Tooltip({
 	windowSize,
 	startDate,
 	dueDate,
-	annotationEmojis,
-	annotationDescriptions,
+	todayEmoji,
 }: TooltipProps) {
 	const date = addDays(startDate, day.index);
 	const weekNum = Math.floor(day.index / 7) + 1;
@@ -108,10 +106,17 @@ export function Tooltip({
 	];
 	const fullDate = `${dayOfWeek}, ${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
 	const borderColor = getBorderColor(day);
-	const annotationColor = getAnnotationTextColor(day);
+
+	// A plain today is annotated like a milestone
+	const milestones: DayMilestone[] =
+		day.milestones.length || !day.isToday
+			? day.milestones
+			: [{ id: "today", label: "Today", emoji: todayEmoji }];
+	// A single milestone's emoji is shown large beside the date
+	const emoji = milestones.length === 1 ? milestones[0].emoji : null;
 
 	const tooltipWidth = 180;
-	const tooltipHeight = day.annotation ? 70 : 50;
+	const tooltipHeight = 50 + milestones.length * 20;
 	const margin = 12;
 
 	let left = position.x - tooltipWidth / 2;
@@ -126,11 +131,6 @@ export function Tooltip({
 		top = position.y + margin;
 	}
 
-	const emoji = day.annotation ? annotationEmojis[day.annotation] : null;
-	const description = day.annotation
-		? annotationDescriptions[day.annotation]
-		: null;
-
 	return (
 		<div
 			class={`day-tooltip ${emoji ? "has-emoji" : ""}`}
@@ -147,12 +147,23 @@ export function Tooltip({
 					Week {weekNum}
 					{dayOffset > 0 ? ` + ${dayOffset}` : ""}
 				</div>
-				{day.annotation && (
-					<div class="tooltip-annotation" style={{ color: annotationColor }}>
-						{day.annotation}
+				{milestones.map((m) => (
+					<div key={m.id} class="tooltip-milestone">
+						<div
+							class="tooltip-annotation"
+							style={{
+								color: getAnnotationTextColor({ ...day, color: m.color }),
+							}}
+						>
+							{!emoji && <span class="tooltip-milestone-emoji">{m.emoji}</span>}
+							{m.label}
+						</div>
+						{m.description && (
+							<div class="tooltip-description">{m.description}</div>
+						)}
+						{m.repeats && <div class="tooltip-description">{m.repeats}</div>}
 					</div>
-				)}
-				{description && <div class="tooltip-description">{description}</div>}
+				))}
 				{day.isToday && <CountdownTimer targetDate={dueDate} />}
 			</div>
 		</div>
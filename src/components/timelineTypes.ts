@@ -12,6 +12,7 @@ export type WeekMarker = {
 };
 
 export type GanttBarBase = {
+	id: string;
 	label: string;
 	startPosition: number;
 	endPosition: number;
@@ -23,9 +24,23 @@ export type GanttBarBase = {
 	endIndex: number;
 };
 
+// Range milestones by id
 export type RangeMilestoneLookup = Record<
 	string,
-	{ startIndex: number; endIndex: number; color?: string; emoji: string }
+	{
+		label: string;
+		startIndex: number;
+		endIndex: number;
+		color?: string;
+		emoji: string;
+	}
 >;
 
-export type BaseMilestone = DayInfo & { position: number };
+// A single-day milestone marker. Days with several milestones get one
+// marker each, coloured by its own milestone rather than the day.
+export type BaseMilestone = DayInfo & {
+	id: string;
+	label: string;
+	emoji: string;
+	position: number;
+};
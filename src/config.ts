@@ -1,46 +1,180 @@
-import configData from "./config.json";
-
-// Type for milestones in the JSON
-type MilestoneJSON = {
-	date: string;
-	endDate?: string;
-	label: string;
-	emoji: string;
-	color?: string;
-	description?: string;
-};
+import { signal } from "@preact/signals";
+import { API_URL, CONFIG_ID } from "./api";
+import bundledConfig from "./config.json";
+import { parseDate } from "./dates";
+import { ConfigVersionError, migrateConfig } from "./migrations";
+import { resolveMilestoneDates } from "./offsets";
+import { occurrenceDates } from "./recurrence";
+import {
+	assignMilestoneIds,
+	configSchema,
+	describeSchemaIssue,
+	type ConfigJSON,
+	type RecurrenceJSON,
+} from "./schema";
 
 // Type for the parsed config
 export type Milestone = {
+	id: string;
 	date: Date;
 	endDate?: Date;
 	label: string;
 	emoji: string;
 	color?: string;
 	description?: string;
+	recurrence?: RecurrenceJSON;
 };
 
-// Parse dates from JSON strings
-export const CONFIG = {
-	startDate: new Date(configData.startDate),
-	dueDate: new Date(configData.dueDate),
-	todayEmoji: configData.todayEmoji,
-	milestones: (configData.milestones as MilestoneJSON[]).map((m) => ({
-		...m,
-		date: new Date(m.date),
-		endDate: m.endDate ? new Date(m.endDate) : undefined,
-	})) as Milestone[],
+export type Config = {
+	startDate: Date;
+	dueDate: Date;
+	todayEmoji: string;
+	milestones: Milestone[];
 };
 
-// Derived exports (computed from config data)
-export const ANNOTATION_EMOJIS: Record<string, string> = {
-	Today: CONFIG.todayEmoji,
-	...Object.fromEntries(CONFIG.milestones.map((m) => [m.label, m.emoji])),
-};
+const CONFIG_CACHE_KEY = CONFIG_ID
+	? `meanwhile-config:${CONFIG_ID}`
+	: "meanwhile-config";
+
+type ParseResult =
+	| { config: Config; json: ConfigJSON }
+	| { config: null; issues: string[] };
+
+// Upgrade a config to the current schema version, check it against the
+// shared schema and parse its dates. The worker validates configs before
+// committing them, so this guards against a broken cache or a config edited
+// by hand.
+function parseConfig(value: unknown): ParseResult {
+	let migrated: unknown;
+	try {
+		migrated = migrateConfig(value);
+	} catch (error) {
+		if (error instanceof ConfigVersionError) {
+			return {
+				config: null,
+				issues: [`${error.message}. Reload the page to update the app.`],
+			};
+		}
+		throw error;
+	}
+
+	const result = configSchema.safeParse(migrated);
+	if (!result.success) {
+		return {
+			config: null,
+			issues: result.error.issues.map((issue) =>
+				describeSchemaIssue(issue.path, issue.message),
+			),
+		};
+	}
+
+	const json = result.data;
+	const issues: string[] = [];
+	const toDate = (value: string, path: (string | number)[]) => {
+		const time = parseDate(value);
+		if (time === null) {
+			issues.push(describeSchemaIssue(path, `${value} is not a real date`));
+		}
+		return new Date(time ?? Number.NaN);
+	};
+	const config: Config = {
+		startDate: toDate(json.startDate, ["startDate"]),
+		dueDate: toDate(json.dueDate, ["dueDate"]),
+		todayEmoji: json.todayEmoji,
+		// Migrated milestones all have ids; new ones only lack them on their
+		// way to the worker. Offsets are resolved against the dates above.
+		milestones: assignMilestoneIds(resolveMilestoneDates(json).milestones).map(
+			(m, i) => ({
+				...m,
+				date: toDate(m.date, ["milestones", i, "date"]),
+				endDate: m.endDate
+					? toDate(m.endDate, ["milestones", i, "endDate"])
+					: undefined,
+			}),
+		),
+	};
+	return issues.length ? { config: null, issues } : { config, json };
+}
+
+function toIsoDate(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+// The milestones as drawn up to `through`: each recurring one once per
+// occurrence, keeping its length, with an id per occurrence such as
+// "physio:2026-01-05"
+export function milestoneOccurrences(
+	milestones: Milestone[],
+	through: Date,
+): Milestone[] {
+	return milestones.flatMap((m) => {
+		if (!m.recurrence) return [m];
+		const length = m.endDate ? m.endDate.getTime() - m.date.getTime() : null;
+		return occurrenceDates(
+			toIsoDate(m.date),
+			m.recurrence,
+			toIsoDate(through),
+		).map((date) => {
+			const start = new Date(date);
+			return {
+				...m,
+				id: `${m.id}:${date}`,
+				date: start,
+				endDate:
+					length === null ? undefined : new Date(start.getTime() + length),
+			};
+		});
+	});
+}
+
+// Last config fetched from the worker, falling back to the one bundled at
+// build time (offline, or before the first fetch)
+function loadInitialConfig(): ParseResult {
+	try {
+		const cached = parseConfig(
+			JSON.parse(localStorage.getItem(CONFIG_CACHE_KEY) ?? "null"),
+		);
+		if (cached.config) return cached;
+	} catch {
+		// Fall through to the bundled config
+	}
+	return parseConfig(bundledConfig);
+}
+
+const initial = loadInitialConfig();
+
+// The config being shown, updated when a newer one arrives from the worker.
+// Null only if neither the cache nor the bundled config is usable.
+export const config = signal<Config | null>(initial.config);
+
+// Problems with the most recent config loaded, which isn't shown if there
+// are any. Empty when it's fine.
+export const configIssues = signal<string[]>(
+	initial.config ? [] : initial.issues,
+);
+
+const CONFIG_URL = CONFIG_ID
+	? `${API_URL}/api/configs/${encodeURIComponent(CONFIG_ID)}`
+	: `${API_URL}/api/config`;
+
+// Fetch the latest config from the worker. Keeps showing the current one if
+// the worker can't be reached, or if it returns something invalid, which is
+// reported in configIssues.
+export async function refreshConfig(): Promise<void> {
+	try {
+		const response = await fetch(CONFIG_URL);
+		if (!response.ok) return;
+		const data = (await response.json()) as { config: unknown };
+		const result = parseConfig(data.config);
+		if (!result.config) {
+			configIssues.value = result.issues;
+			return;
+		}
 
-export const ANNOTATION_DESCRIPTIONS: Record<string, string> =
-	Object.fromEntries(
-		CONFIG.milestones
-			.filter((m) => m.description)
-			.map((m) => [m.label, m.description!]),
-	);
+		localStorage.setItem(CONFIG_CACHE_KEY, JSON.stringify(result.json));
+		config.value = result.config;
+		configIssues.value = [];
+	} catch {
+		// Offline; the cached or bundled config stays up
+	}
+}
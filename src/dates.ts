@@ -0,0 +1,14 @@
+// YYYY-MM-DD dates, shared by the app and the config editor worker
+
+// Epoch ms of a YYYY-MM-DD date, or null if it isn't a real calendar date.
+// Date would quietly roll 2026-02-31 over into March.
+export function parseDate(value: string): number | null {
+	const [year, month, day] = value.split("-").map(Number);
+	const time = Date.UTC(year, month - 1, day);
+	const date = new Date(time);
+	return date.getUTCFullYear() === year &&
+		date.getUTCMonth() === month - 1 &&
+		date.getUTCDate() === day
+		? time
+		: null;
+}
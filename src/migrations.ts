@@ -0,0 +1,99 @@
+import { assignMilestoneIds, CONFIG_SCHEMA_VERSION } from "./schema";
+
+// Upgrades for configs written before the latest schema version, shared by
+// the app and the config editor worker. Old commits stay in the config
+// history as they were written, so every reader goes through migrateConfig
+// and only ever sees the latest shape. The worker always writes it.
+
+type ConfigObject = Record<string, unknown>;
+
+type Migration = {
+	// Version this step upgrades to, from the one before it
+	to: number;
+	description: string;
+	migrate: (config: ConfigObject) => ConfigObject;
+};
+
+function isObject(value: unknown): value is ConfigObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// In order, one step per version. Steps get whatever an older version
+// allowed, which may not have been valid even then, and leave anything they
+// can't make sense of for the schema to report.
+export const MIGRATIONS: Migration[] = [
+	{
+		to: 2,
+		description: "Give every milestone a stable id",
+		migrate: (config) => {
+			const { milestones } = config;
+			if (
+				!Array.isArray(milestones) ||
+				!milestones.every((m) => isObject(m) && typeof m.label === "string")
+			) {
+				return config;
+			}
+			return {
+				...config,
+				milestones: assignMilestoneIds(
+					milestones as (ConfigObject & { id?: string; label: string })[],
+				),
+			};
+		},
+	},
+	{
+		// Adds nothing to existing configs, but clients that can't expand
+		// recurring milestones would show only their first occurrence
+		to: 3,
+		description: "Milestones can recur",
+		migrate: (config) => config,
+	},
+	{
+		// Likewise, for clients that need every milestone to have a date
+		to: 4,
+		description: "Milestones can be placed relative to the pregnancy",
+		migrate: (config) => config,
+	},
+];
+
+// Thrown for a config written by a newer version of the app or worker
+export class ConfigVersionError extends Error {
+	readonly version: number;
+
+	constructor(version: number) {
+		super(
+			`Config schema version ${version} is newer than this version supports (${CONFIG_SCHEMA_VERSION})`,
+		);
+		this.name = "ConfigVersionError";
+		this.version = version;
+	}
+}
+
+// Upgrade a parsed config to CONFIG_SCHEMA_VERSION. Anything that isn't a
+// config object, or has a malformed schemaVersion, comes back unchanged so
+// schema validation can say what's wrong with it. Throws ConfigVersionError
+// if the config is newer than this code.
+export function migrateConfig(value: unknown): unknown {
+	if (!isObject(value)) return value;
+
+	// Configs from before schemaVersion existed are version 1
+	const version = value.schemaVersion ?? 1;
+	if (
+		typeof version !== "number" ||
+		!Number.isInteger(version) ||
+		version < 1
+	) {
+		return value;
+	}
+	if (version > CONFIG_SCHEMA_VERSION) {
+		throw new ConfigVersionError(version);
+	}
+
+	const upgraded = MIGRATIONS.filter((step) => step.to > version).reduce(
+		(config, step) => step.migrate(config),
+		value,
+	);
+	// Keep schemaVersion first, where it's written in config.json
+	const { schemaVersion, ...rest } = upgraded;
+	return { schemaVersion: CONFIG_SCHEMA_VERSION, ...rest };
+}
@@ -0,0 +1,78 @@
+import type { ConfigJSON, MilestoneJSON, PregnancyOffsetJSON } from "./schema";
+
+// Resolution of milestones placed relative to the pregnancy into dates,
+// shared by the app and the config editor worker. The config keeps the
+// offsets, so they're resolved against startDate and dueDate every time
+// it's loaded.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PregnancyDates = Pick<ConfigJSON, "startDate" | "dueDate">;
+
+export type ResolvedMilestone<M extends MilestoneJSON = MilestoneJSON> = M & {
+	date: string;
+};
+
+export type ResolvedConfigJSON = Omit<ConfigJSON, "milestones"> & {
+	milestones: ResolvedMilestone[];
+};
+
+// Never NaN, so a date that isn't in the calendar (reported elsewhere)
+// still resolves: 2026-02-30 is taken as 2 March
+function toTime(date: string): number {
+	const [year, month, day] = date.split("-").map(Number);
+	return Date.UTC(year, month - 1, day);
+}
+
+// YYYY-MM-DD day an offset falls on. Dates are handled in UTC so the
+// result doesn't shift with the time zone.
+export function offsetDate(
+	{ startDate, dueDate }: PregnancyDates,
+	{ week, day = 0, from = "startDate" }: PregnancyOffsetJSON,
+): string {
+	const days = week * 7 + day;
+	const time =
+		from === "startDate"
+			? toTime(startDate) + days * DAY_MS
+			: toTime(dueDate) - days * DAY_MS;
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+// The milestone with date and endDate filled in from its offsets, if it has
+// them. Offsets stay on it, so it can still be saved as written.
+export function resolveMilestone<M extends MilestoneJSON>(
+	dates: PregnancyDates,
+	milestone: M,
+): ResolvedMilestone<M> {
+	const { offset, endOffset } = milestone;
+	return {
+		...milestone,
+		date: offset ? offsetDate(dates, offset) : (milestone.date ?? ""),
+		...(endOffset && { endDate: offsetDate(dates, endOffset) }),
+	};
+}
+
+// The config with every milestone's dates resolved, see resolveMilestone.
+// Expects a config that passed the schema, so every milestone has a date or
+// an offset.
+export function resolveMilestoneDates<C extends ConfigJSON>(
+	config: C,
+): Omit<C, "milestones"> & {
+	milestones: ResolvedMilestone<C["milestones"][number]>[];
+} {
+	return {
+		...config,
+		milestones: config.milestones.map((m) => resolveMilestone(config, m)),
+	};
+}
+
+// Short summary for people, e.g. "12+3 weeks" or "2+0 weeks before due"
+export function describeOffset({
+	week,
+	day = 0,
+	from = "startDate",
+}: PregnancyOffsetJSON): string {
+	return from === "startDate"
+		? `${week}+${day} weeks`
+		: `${week}+${day} weeks before due`;
+}
@@ -0,0 +1,144 @@
+import { WEEKDAYS, type RecurrenceJSON } from "./schema";
+
+// Expansion of recurring milestones into their occurrences, shared by the
+// app (which draws each one) and the config editor worker (which checks
+// them). Dates are YYYY-MM-DD strings, handled in UTC so no occurrence
+// shifts with the time zone or daylight saving.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stops a recurrence without an end from running away
+const MAX_OCCURRENCES = 1000;
+
+const WEEKDAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const UNITS = { daily: "day", weekly: "week", monthly: "month" } as const;
+
+function toTime(date: string): number {
+	const [year, month, day] = date.split("-").map(Number);
+	return Date.UTC(year, month - 1, day);
+}
+
+function toIsoDate(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+// Monday = 0, like WEEKDAYS
+function weekdayIndex(time: number): number {
+	return (new Date(time).getUTCDay() + 6) % 7;
+}
+
+// Candidate dates for one period of the recurrence (the nth day, week or
+// month), in order, before count, until and exceptions are applied
+function periodTimes(
+	start: number,
+	recurrence: RecurrenceJSON,
+	period: number,
+): number[] {
+	const step = period * (recurrence.interval ?? 1);
+
+	switch (recurrence.frequency) {
+		case "daily":
+			return [start + step * DAY_MS];
+		case "weekly": {
+			const monday = start - weekdayIndex(start) * DAY_MS + step * 7 * DAY_MS;
+			const weekdays = recurrence.byWeekday
+				? [...new Set(recurrence.byWeekday.map((d) => WEEKDAYS.indexOf(d)))]
+				: [weekdayIndex(start)];
+			return weekdays
+				.sort((a, b) => a - b)
+				.map((weekday) => monday + weekday * DAY_MS)
+				.filter((time) => time >= start);
+		}
+		case "monthly": {
+			const date = new Date(start);
+			const day = date.getUTCDate();
+			const time = Date.UTC(
+				date.getUTCFullYear(),
+				date.getUTCMonth() + step,
+				day,
+			);
+			// Date.UTC rolls the 31st of a short month into the next one
+			return new Date(time).getUTCDate() === day ? [time] : [];
+		}
+	}
+}
+
+// First day of a period, to know when the periods have passed `last`
+function periodStart(
+	start: number,
+	recurrence: RecurrenceJSON,
+	period: number,
+): number {
+	const step = period * (recurrence.interval ?? 1);
+	switch (recurrence.frequency) {
+		case "daily":
+			return start + step * DAY_MS;
+		case "weekly":
+			return start - weekdayIndex(start) * DAY_MS + step * 7 * DAY_MS;
+		case "monthly": {
+			const date = new Date(start);
+			return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + step, 1);
+		}
+	}
+}
+
+// Dates a milestone falls on, up to `through` (inclusive). A milestone
+// without a recurrence falls on its date alone. Exceptions are removed
+// after counting, as in RRULE, so skipping one doesn't add another at the
+// end.
+export function occurrenceDates(
+	date: string,
+	recurrence: RecurrenceJSON | undefined,
+	through: string,
+): string[] {
+	if (!recurrence) return [date];
+
+	const start = toTime(date);
+	const last = Math.min(
+		toTime(through),
+		recurrence.until ? toTime(recurrence.until) : Number.POSITIVE_INFINITY,
+	);
+	const limit = Math.min(recurrence.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+	const times: number[] = [];
+	for (
+		let period = 0;
+		times.length < limit && periodStart(start, recurrence, period) <= last;
+		period++
+	) {
+		for (const time of periodTimes(start, recurrence, period)) {
+			if (time > last || times.length === limit) break;
+			times.push(time);
+		}
+	}
+
+	const exceptions = new Set(recurrence.exceptions);
+	return times.map(toIsoDate).filter((d) => !exceptions.has(d));
+}
+
+// Short summary for people, e.g. "Every 2 weeks on Mon, Thu until 2026-05-01"
+export function describeRecurrence(recurrence: RecurrenceJSON): string {
+	const {
+		frequency,
+		interval = 1,
+		byWeekday,
+		until,
+		count,
+		exceptions,
+	} = recurrence;
+	const unit = UNITS[frequency];
+	const parts = [
+		interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`,
+	];
+
+	if (byWeekday) {
+		parts.push(
+			`on ${byWeekday.map((d) => WEEKDAY_NAMES[WEEKDAYS.indexOf(d)]).join(", ")}`,
+		);
+	}
+	if (until) parts.push(`until ${until}`);
+	if (count) parts.push(count === 1 ? "once" : `${count} times`);
+	if (exceptions?.length) parts.push(`except ${exceptions.join(", ")}`);
+	return parts.join(" ");
+}
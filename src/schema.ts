@@ -0,0 +1,207 @@
+import { z } from "zod";
+
+// Shape of config.json, shared by the app and the config editor worker. The
+// worker adds semantic rules on top (worker/src/services/rules.ts) and
+// publishes this schema as JSON Schema at GET /api/schema. Configs written
+// for older versions are upgraded by src/migrations.ts before they're
+// checked against it.
+
+// Bump this with a migration whenever the shape changes
+export const CONFIG_SCHEMA_VERSION = 4;
+
+// Colours with a --color-* variable in src/styles/app.css
+export const MILESTONE_COLORS = [
+	"blue",
+	"gold",
+	"salmon",
+	"pink",
+	"red",
+	"orange",
+	"purple",
+	"teal",
+	"subtle",
+] as const;
+
+// ISO date format: YYYY-MM-DD
+export const isoDateSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD format");
+
+export const milestoneIdSchema = z
+	.string()
+	.regex(
+		/^[a-z0-9]+(-[a-z0-9]+)*$/,
+		"Expected lowercase letters and digits separated by dashes",
+	);
+
+export const RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+
+// RRULE weekday codes, Monday first
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+
+// How a milestone repeats from its date, after RRULE (RFC 5545). Weeks start
+// on Monday, and monthly recurrence skips months without the day.
+export const recurrenceSchema = z.object({
+	frequency: z.enum(RECURRENCE_FREQUENCIES),
+	interval: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Repeat every this many days, weeks or months (default 1)"),
+	byWeekday: z
+		.array(z.enum(WEEKDAYS))
+		.min(1)
+		.optional()
+		.describe("Days of the week, for weekly recurrence (default the date's)"),
+	until: isoDateSchema
+		.optional()
+		.describe("Last day an occurrence may fall on"),
+	count: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Number of occurrences, counting the first and any exceptions"),
+	exceptions: z
+		.array(isoDateSchema)
+		.optional()
+		.describe("Dates of occurrences to skip"),
+});
+
+// A day in the pregnancy, as weeks and days since startDate (gestational age
+// 12+3 is { week: 12, day: 3 }, which the app shows as week 13) or before
+// dueDate. Milestones given this way move when either date is revised.
+export const pregnancyOffsetSchema = z.object({
+	week: z.number().int().min(0),
+	day: z.number().int().min(0).max(6).optional(),
+	from: z
+		.enum(["startDate", "dueDate"])
+		.optional()
+		.describe("Count on from startDate (default) or back from dueDate"),
+});
+
+export const milestoneSchema = z.object({
+	id: milestoneIdSchema
+		.optional()
+		.describe(
+			"Stable id, assigned by the config editor when the milestone is added",
+		),
+	date: isoDateSchema.optional().describe("Required unless offset is set"),
+	offset: pregnancyOffsetSchema
+		.optional()
+		.describe(
+			"Day of the milestone relative to the pregnancy, instead of date",
+		),
+	endDate: isoDateSchema
+		.optional()
+		.describe("Last day of a milestone that spans several days"),
+	endOffset: pregnancyOffsetSchema
+		.optional()
+		.describe("Last day relative to the pregnancy, instead of endDate"),
+	label: z.string().min(1, "Label is required"),
+	emoji: z.string().min(1, "Emoji is required"),
+	color: z
+		.string()
+		.optional()
+		.describe(`One of ${MILESTONE_COLORS.join(", ")}`),
+	description: z.string().optional(),
+	recurrence: recurrenceSchema.optional(),
+});
+
+export const configSchema = z
+	.object({
+		schemaVersion: z
+			.literal(CONFIG_SCHEMA_VERSION)
+			.describe("Version of this format; older configs are upgraded when read"),
+		startDate: isoDateSchema,
+		dueDate: isoDateSchema,
+		todayEmoji: z.string().min(1, "todayEmoji is required"),
+		milestones: z.array(milestoneSchema),
+	})
+	.superRefine((config, ctx) => {
+		config.milestones.forEach((m, i) => {
+			if ((m.date === undefined) === (m.offset === undefined)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["milestones", i, "date"],
+					message: "Needs either a date or an offset",
+				});
+			}
+			if (m.endDate !== undefined && m.endOffset !== undefined) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["milestones", i, "endDate"],
+					message: "Needs either an endDate or an endOffset, not both",
+				});
+			}
+		});
+	});
+
+export type RecurrenceJSON = z.infer<typeof recurrenceSchema>;
+export type PregnancyOffsetJSON = z.infer<typeof pregnancyOffsetSchema>;
+export type MilestoneJSON = z.infer<typeof milestoneSchema>;
+export type ConfigJSON = z.infer<typeof configSchema>;
+
+// Base id for a milestone, from its label: "Flu Jab" -> "flu-jab"
+function slugify(label: string): string {
+	const slug = label
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.slice(0, 40)
+		.replace(/^-+|-+$/g, "");
+	return slug || "milestone";
+}
+
+// Give every milestone without an id, or with an id already taken by an
+// earlier one, an id derived from its label. Existing ids are kept, so they
+// survive renames and moves. The same list always gets the same ids, so a
+// config that was never saved with ids can still be edited by id.
+export function assignMilestoneIds<M extends { id?: string; label: string }>(
+	milestones: M[],
+): (M & { id: string })[] {
+	const taken = new Set<string>();
+	const kept = milestones.map((m) => {
+		if (!m.id || taken.has(m.id)) return null;
+		taken.add(m.id);
+		return m.id;
+	});
+
+	return milestones.map((m, i) => {
+		let id = kept[i];
+		if (!id) {
+			const base = slugify(m.label);
+			id = base;
+			for (let n = 2; taken.has(id); n++) {
+				id = `${base}-${n}`;
+			}
+			taken.add(id);
+		}
+		return { ...m, id };
+	});
+}
+
+// The config with every milestone given an id, see assignMilestoneIds
+export function withMilestoneIds<C extends { milestones: MilestoneJSON[] }>(
+	config: C,
+): C & { milestones: (MilestoneJSON & { id: string })[] } {
+	return { ...config, milestones: assignMilestoneIds(config.milestones) };
+}
+
+// Readable message for a schema error at a path in the config
+export function describeSchemaIssue(
+	path: (string | number)[],
+	message: string,
+): string {
+	const dotted = path.join(".");
+
+	// Make milestone errors more readable
+	const match = dotted.match(/^milestones\.(\d+)\.(.+)$/);
+	if (match) {
+		const [, index, field] = match;
+		return `Milestone ${Number(index) + 1} ${field}: ${message}`;
+	}
+	return dotted ? `${dotted}: ${message}` : message;
+}
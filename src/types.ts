@@ -1,10 +1,25 @@
+// A milestone starting on a day
+export type DayMilestone = {
+	id: string;
+	label: string;
+	emoji: string;
+	color?: string;
+	description?: string;
+	// Summary of how a recurring milestone repeats
+	repeats?: string;
+	// Last day of a range milestone
+	endIndex?: number;
+};
+
 export type DayInfo = {
 	index: number;
 	passed: boolean;
+	// Colour of the day's first coloured milestone
 	color?: string;
 	isToday: boolean;
 	isOddWeek: boolean;
 	dateLabel: string;
-	annotation: string;
+	// Milestones starting on this day, in config order
+	milestones: DayMilestone[];
 	isUncoloredMilestone: boolean;
 };
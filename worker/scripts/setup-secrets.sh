@@ -32,12 +32,14 @@ get_or_set_secret() {
 echo "Setting up .dev.vars for local development..."
 echo
 
-PIN=$(get_or_set_secret "PIN" "Enter PIN (4-digit)")
+SESSION_SECRET=$(get_or_set_secret "SESSION_SECRET" "Enter session secret (e.g. from openssl rand -hex 32)")
+USERS=$(get_or_set_secret "USERS" "Enter accounts JSON, e.g. [{\"name\":\"Dev\",\"password\":\"dev\",\"role\":\"editor\"}]")
 MISTRAL_API_KEY=$(get_or_set_secret "MISTRAL_API_KEY" "Enter Mistral API key")
 GITHUB_TOKEN=$(get_or_set_secret "GITHUB_TOKEN" "Enter GitHub token")
 
 cat > .dev.vars << EOF
-PIN=$PIN
+SESSION_SECRET=$SESSION_SECRET
+USERS=$USERS
 MISTRAL_API_KEY=$MISTRAL_API_KEY
 GITHUB_TOKEN=$GITHUB_TOKEN
 EOF
@@ -1,16 +1,72 @@
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import type { Context } from "hono";
 import { cors } from "hono/cors";
-import { editConfig } from "./services/mistral";
-import { getConfig, commitConfig } from "./services/github";
-import { validateConfig } from "./services/validator";
-
-type Bindings = {
-	PIN: string;
-	MISTRAL_API_KEY: string;
-	GITHUB_TOKEN: string;
-};
+import { streamSSE } from "hono/streaming";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { runChat } from "./services/chat";
+import { COMMIT_PREFIX, commitSummary } from "./services/commitMessage";
+import { createConfigStore, type ConfigStore } from "./services/configStore";
+import { TenantConfigError } from "./services/configs";
+import { ConfigConflictError, PullRequestError } from "./services/github";
+import {
+	configIssueSchema,
+	configSchema,
+	isoDateSchema,
+	milestoneIdSchema,
+	milestoneSchema,
+	readConfig,
+} from "./services/validator";
+import { configDiffSchema } from "./services/diff";
+import {
+	commitEdit,
+	ConfigValidationError,
+	milestoneById,
+	replaceMilestones,
+	type EditResult,
+} from "./services/edits";
+import { editOperationSchema, OperationError, type EditOperation } from "./services/operations";
+import { createProposalStore } from "./services/proposals";
+import { getHistory } from "./services/history";
+import {
+	AuthConfigError,
+	checkPassword,
+	createSessionManager,
+} from "./services/auth";
+import {
+	createDeliveryLog,
+	webhookDeliverySchema,
+	WebhookConfigError,
+	withWebhooks,
+	type Background,
+} from "./services/webhooks";
+import { loginThrottle, rateLimit, requireEditor, requireUser } from "./middleware/auth";
+import { selectConfig } from "./middleware/config";
+import type { AppEnv } from "./types";
+
+const app = new OpenAPIHono<AppEnv>();
+
+// Routes that act on one config, mounted below for the default config and
+// for every config id
+const configApp = new OpenAPIHono<AppEnv>();
+
+// Keep a task running after the response is sent. Outside Workers (tests)
+// there is no execution context and the task just runs unawaited.
+function background(c: Context<AppEnv>): Background {
+	return (task) => {
+		try {
+			c.executionCtx.waitUntil(task);
+		} catch {
+			// No ExecutionContext
+		}
+	};
+}
 
-const app = new OpenAPIHono<{ Bindings: Bindings }>();
+// Store for routes that change the selected config, announcing each change
+// to its webhooks
+function editableStore(c: Context<AppEnv>): ConfigStore {
+	const configId = c.get("configId");
+	return withWebhooks(createConfigStore(c.env, configId), c.env, configId, background(c));
+}
 
 // Enable CORS for the frontend
 app.use(
@@ -21,9 +77,14 @@ app.use(
 			"http://localhost:5173",
 			"http://localhost:4173",
 		],
+		// Lets the editor show how long to wait after a 429
+		exposeHeaders: ["Retry-After"],
 	}),
 );
 
+// Throttle all API routes per IP and globally
+app.use("/api/*", rateLimit);
+
 // Health check route
 const healthRoute = createRoute({
 	method: "get",
@@ -42,10 +103,297 @@ const healthRoute = createRoute({
 
 app.openapi(healthRoute, (c) => c.json({ status: "ok" }, 200));
 
+// Tokens returned by login and refresh
+const sessionSchema = z.object({
+	accessToken: z
+		.string()
+		.openapi({ description: "Bearer token for the other API routes" }),
+	refreshToken: z
+		.string()
+		.openapi({ description: "Single-use token for /api/auth/refresh and /api/auth/logout" }),
+	expiresIn: z
+		.number()
+		.openapi({ description: "Seconds until the access token expires" }),
+	user: z.object({
+		name: z.string(),
+		role: z
+			.enum(["editor", "viewer"])
+			.openapi({ description: "Viewers can read history but not edit" }),
+	}),
+});
+
+const refreshTokenBodySchema = z.object({
+	refreshToken: z.string().min(1),
+});
+
+// Login route
+const loginRoute = createRoute({
+	method: "post",
+	path: "/auth/login",
+	middleware: [selectConfig, loginThrottle] as const,
+	summary: "Log in",
+	description:
+		"Exchange a name and password for a short-lived access token and a refresh token",
+	request: {
+		body: {
+			content: {
+				"application/json": {
+					schema: z.object({
+						username: z.string().trim().min(1).max(100),
+						password: z.string().min(1),
+					}),
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Logged in",
+			content: {
+				"application/json": {
+					schema: sessionSchema,
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - wrong name or password",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests or failed login attempts",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(loginRoute, async (c) => {
+	const { username, password } = c.req.valid("json");
+
+	const user = await checkPassword(c.env, username, password);
+	if (!user) {
+		return c.json({ error: "Wrong name or password" }, 401);
+	}
+
+	const tokens = await createSessionManager(c.env, c.get("configId")).start(user);
+	return c.json(tokens, 200);
+});
+
+// Refresh route
+const refreshRoute = createRoute({
+	method: "post",
+	path: "/auth/refresh",
+	middleware: [selectConfig] as const,
+	summary: "Refresh a session",
+	description:
+		"Exchange a refresh token for new tokens. Each refresh token can be used once.",
+	request: {
+		body: {
+			content: {
+				"application/json": {
+					schema: refreshTokenBodySchema,
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "New tokens",
+			content: {
+				"application/json": {
+					schema: sessionSchema,
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - refresh token invalid, expired, reused or revoked",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(refreshRoute, async (c) => {
+	const { refreshToken } = c.req.valid("json");
+
+	const tokens = await createSessionManager(c.env, c.get("configId")).refresh(refreshToken);
+	if (!tokens) {
+		return c.json({ error: "Session expired, please log in again" }, 401);
+	}
+	return c.json(tokens, 200);
+});
+
+// Logout route
+const logoutRoute = createRoute({
+	method: "post",
+	path: "/auth/logout",
+	middleware: [selectConfig] as const,
+	summary: "Log out",
+	description: "Revoke every token issued for the refresh token's session",
+	request: {
+		body: {
+			content: {
+				"application/json": {
+					schema: refreshTokenBodySchema,
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Logged out (also returned for already invalid tokens)",
+			content: {
+				"application/json": {
+					schema: z.object({ loggedOut: z.boolean() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(logoutRoute, async (c) => {
+	const { refreshToken } = c.req.valid("json");
+
+	await createSessionManager(c.env, c.get("configId")).revoke(refreshToken);
+	return c.json({ loggedOut: true }, 200);
+});
+
+// Upper bound on replayed turns to keep the prompt size reasonable. Longer
+// histories are trimmed to their latest turns rather than rejected, so a
+// long conversation keeps working.
+const MAX_HISTORY_TURNS = 50;
+
+const chatRequestSchema = z.object({
+	message: z
+		.string()
+		.min(1)
+		.openapi({ description: "Natural language instruction for editing the config" }),
+	history: z
+		.array(
+			z.object({
+				role: z.enum(["user", "assistant"]),
+				content: z.string(),
+			}),
+		)
+		.transform((turns) => turns.slice(-MAX_HISTORY_TURNS))
+		.optional()
+		.openapi({
+			description: `Previous turns of the conversation, oldest first. Only the latest ${MAX_HISTORY_TURNS} are used.`,
+		}),
+	mode: z
+		.enum(["commit", "preview"])
+		.optional()
+		.openapi({
+			description:
+				"commit (default) commits immediately; preview returns a proposal to confirm via /api/confirm",
+		}),
+});
+
+// Where an edit went in pull request mode
+const pullRequestSchema = z
+	.object({
+		number: z.number().int(),
+		url: z.string().openapi({ description: "GitHub URL of the pull request" }),
+	})
+	.openapi("PullRequest");
+
+const chatResultSchema = z.object({
+	response: z
+		.string()
+		.openapi({ description: "LLM response explaining what was done" }),
+	configUpdated: z
+		.boolean()
+		.openapi({ description: "Whether the config was modified" }),
+	commitSha: z
+		.string()
+		.optional()
+		.openapi({ description: "SHA of the new commit (only if configUpdated is true)" }),
+	commitUrl: z
+		.string()
+		.optional()
+		.openapi({ description: "GitHub commit URL (only if configUpdated is true and the config is stored on GitHub)" }),
+	pullRequest: pullRequestSchema
+		.optional()
+		.openapi({ description: "Pull request holding the commit, in pull request mode" }),
+	operations: z
+		.array(editOperationSchema)
+		.optional()
+		.openapi({ description: "Structured edits the assistant made" }),
+	proposalId: z
+		.string()
+		.optional()
+		.openapi({ description: "Id to pass to /api/confirm (preview mode only)" }),
+	proposedConfig: z
+		.string()
+		.optional()
+		.openapi({ description: "The proposed config.json (preview mode only)" }),
+	diff: configDiffSchema
+		.optional()
+		.openapi({ description: "Milestone-level changes (preview mode only)" }),
+	warnings: z
+		.array(configIssueSchema)
+		.optional()
+		.openapi({ description: "Validation warnings that didn't block the edit" }),
+	attempts: z
+		.array(
+			z.object({
+				operations: z.array(editOperationSchema),
+				issues: z.array(configIssueSchema),
+			}),
+		)
+		.optional()
+		.openapi({ description: "Edits rejected before the final one, with the reasons, oldest first" }),
+});
+
+const CONFLICT_MESSAGE =
+	"The config keeps changing while I edit it. Please try again in a moment.";
+
 // Chat route
 const chatRoute = createRoute({
 	method: "post",
-	path: "/api/chat",
+	path: "/chat",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
 	summary: "Edit config via chat",
 	description:
 		"Send a natural language message to edit the config.json file",
@@ -53,13 +401,7 @@ const chatRoute = createRoute({
 		body: {
 			content: {
 				"application/json": {
-					schema: z.object({
-						pin: z.string().openapi({ description: "4-digit authentication PIN" }),
-						message: z
-							.string()
-							.min(1)
-							.openapi({ description: "Natural language instruction for editing the config" }),
-					}),
+					schema: chatRequestSchema,
 				},
 			},
 		},
@@ -69,18 +411,7 @@ const chatRoute = createRoute({
 			description: "Successful response",
 			content: {
 				"application/json": {
-					schema: z.object({
-						response: z
-							.string()
-							.openapi({ description: "LLM response explaining what was done" }),
-						configUpdated: z
-							.boolean()
-							.openapi({ description: "Whether the config was modified" }),
-						commitUrl: z
-							.string()
-							.optional()
-							.openapi({ description: "GitHub commit URL (only if configUpdated is true)" }),
-					}),
+					schema: chatResultSchema,
 				},
 			},
 		},
@@ -93,13 +424,51 @@ const chatRoute = createRoute({
 			},
 		},
 		401: {
-			description: "Unauthorized - invalid PIN",
+			description: "Unauthorized - not logged in or session expired",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		403: {
+			description: "Forbidden - the account is read-only",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		409: {
+			description: "Conflict - the config was changed by someone else",
 			content: {
 				"application/json": {
 					schema: z.object({ error: z.string() }),
 				},
 			},
 		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
 		500: {
 			description: "Server error",
 			content: {
@@ -114,55 +483,15 @@ const chatRoute = createRoute({
 	},
 });
 
-app.openapi(chatRoute, async (c) => {
-	const { pin, message } = c.req.valid("json");
-
-	// Validate PIN
-	if (pin !== c.env.PIN) {
-		return c.json({ error: "Invalid PIN" }, 401);
-	}
-
+configApp.openapi(chatRoute, async (c) => {
 	try {
-		// Get current config from GitHub
-		const currentConfig = await getConfig(c.env.GITHUB_TOKEN);
-
-		// Ask Mistral to edit the config
-		const result = await editConfig(
-			c.env.MISTRAL_API_KEY,
-			currentConfig,
-			message,
-		);
-
-		// If no changes needed, return just the response
-		if (!result.newConfig) {
-			return c.json({
-				response: result.response,
-				configUpdated: false,
-			}, 200);
-		}
-
-		// Validate the new config before committing
-		const validation = validateConfig(result.newConfig);
-		if (!validation.valid) {
-			return c.json({
-				response: `I tried to update the config but it failed validation: ${validation.error}`,
-				configUpdated: false,
-			}, 200);
+		const result = await runChat(c.env, editableStore(c), c.get("configId"), c.get("user"), c.req.valid("json"));
+		return c.json(result, 200);
+	} catch (error) {
+		if (error instanceof ConfigConflictError) {
+			return c.json({ error: CONFLICT_MESSAGE }, 409);
 		}
 
-		// Commit the new config to GitHub
-		const commitUrl = await commitConfig(
-			c.env.GITHUB_TOKEN,
-			result.newConfig,
-			message,
-		);
-
-		return c.json({
-			response: result.response,
-			configUpdated: true,
-			commitUrl,
-		}, 200);
-	} catch (error) {
 		console.error("Error processing chat:", error);
 		return c.json(
 			{
@@ -174,15 +503,1467 @@ app.openapi(chatRoute, async (c) => {
 	}
 });
 
-// OpenAPI doc endpoint
-app.doc("/openapi.json", {
-	openapi: "3.1.0",
-	info: {
-		title: "Meanwhile Config Editor API",
-		version: "1.0.0",
-		description:
-			"Chat-based API for editing the Meanwhile pregnancy tracker config via natural language",
+// Streaming chat route
+const chatStreamRoute = createRoute({
+	method: "post",
+	path: "/chat/stream",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Edit config via chat, streaming progress",
+	description:
+		"Same as /api/chat, but responds with server-sent events. `text` events carry the assistant's explanation as it is generated, `phase` events report generating, validating, repairing and committing (generating or repairing again means the edit is being re-run and earlier text should be discarded), and the stream ends with a `result` event shaped like the /api/chat response or an `error` event.",
+	request: {
+		body: {
+			content: {
+				"application/json": {
+					schema: chatRequestSchema,
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Event stream",
+			content: {
+				"text/event-stream": {
+					schema: z.string(),
+				},
+			},
+		},
+		400: {
+			description: "Bad request - missing or invalid message",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - not logged in or session expired",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		403: {
+			description: "Forbidden - the account is read-only",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
 	},
 });
 
+configApp.openapi(chatStreamRoute, (c) => {
+	const request = c.req.valid("json");
+	const configId = c.get("configId");
+	const user = c.get("user");
+	const store = editableStore(c);
+
+	return streamSSE(c, async (stream) => {
+		// Progress callbacks fire synchronously; queue writes to keep them in order
+		let pending = Promise.resolve();
+		const send = (event: string, data: unknown) => {
+			pending = pending.then(() =>
+				stream.writeSSE({ event, data: JSON.stringify(data) }),
+			);
+		};
+
+		try {
+			const result = await runChat(c.env, store, configId, user, request, {
+				onText: (text) => send("text", { text }),
+				onPhase: (phase) => send("phase", { phase }),
+			});
+			send("result", result);
+		} catch (error) {
+			if (error instanceof ConfigConflictError) {
+				send("error", { error: CONFLICT_MESSAGE, status: 409 });
+			} else {
+				console.error("Error processing chat:", error);
+				send("error", {
+					error: "Failed to process request",
+					details: error instanceof Error ? error.message : "Unknown error",
+					status: 500,
+				});
+			}
+		}
+		await pending;
+	});
+});
+
+// Confirm route
+const confirmRoute = createRoute({
+	method: "post",
+	path: "/confirm",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Commit a proposed edit",
+	description:
+		"Commit a config edit previously returned by /api/chat in preview mode",
+	request: {
+		body: {
+			content: {
+				"application/json": {
+					schema: z.object({
+						proposalId: z
+							.string()
+							.min(1)
+							.openapi({ description: "Proposal id returned by /api/chat" }),
+					}),
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Proposal committed",
+			content: {
+				"application/json": {
+					schema: z.object({
+						configUpdated: z.boolean(),
+						commitSha: z.string().openapi({ description: "SHA of the new commit" }),
+						commitUrl: z
+							.string()
+							.optional()
+							.openapi({ description: "GitHub commit URL, when stored on GitHub" }),
+						pullRequest: pullRequestSchema
+							.optional()
+							.openapi({ description: "Pull request holding the commit, in pull request mode" }),
+					}),
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - not logged in or session expired",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		403: {
+			description: "Forbidden - the account is read-only",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "Proposal not found or expired, or no such config",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		409: {
+			description: "Conflict - the config was changed by someone else",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+		500: {
+			description: "Server error",
+			content: {
+				"application/json": {
+					schema: z.object({
+						error: z.string(),
+						details: z.string().optional(),
+					}),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(confirmRoute, async (c) => {
+	const { proposalId } = c.req.valid("json");
+
+	const proposals = createProposalStore(c.env.PROPOSALS);
+	const proposal = await proposals.get(proposalId);
+	if (!proposal || proposal.configId !== c.get("configId")) {
+		return c.json({ error: "Proposal not found or expired" }, 404);
+	}
+
+	try {
+		const commit = await editableStore(c).commit(
+			proposal.config,
+			proposal.message,
+			proposal.baseSha,
+			c.get("user").name,
+		);
+		await proposals.delete(proposalId);
+
+		return c.json(
+			{
+				configUpdated: true,
+				commitSha: commit.sha,
+				commitUrl: commit.url ?? undefined,
+				pullRequest: commit.pullRequest,
+			},
+			200,
+		);
+	} catch (error) {
+		// Committing now would silently drop someone else's edit
+		if (error instanceof ConfigConflictError) {
+			await proposals.delete(proposalId);
+			return c.json({
+				error: "The config changed since this edit was proposed. Please ask again.",
+			}, 409);
+		}
+
+		console.error("Error confirming proposal:", error);
+		return c.json(
+			{
+				error: "Failed to commit proposal",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
+
+// Revert route
+const revertRoute = createRoute({
+	method: "post",
+	path: "/revert",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Undo a config edit",
+	description:
+		"Restore config.json as it was before the given config editor commit",
+	request: {
+		body: {
+			content: {
+				"application/json": {
+					schema: z.object({
+						sha: z
+							.string()
+							.regex(/^[0-9a-f]{7,40}$/, "Expected a commit SHA")
+							.openapi({ description: "SHA of the config editor commit to undo" }),
+					}),
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Config restored",
+			content: {
+				"application/json": {
+					schema: z.object({
+						configUpdated: z.boolean(),
+						commitSha: z.string().openapi({ description: "SHA of the revert commit" }),
+						commitUrl: z
+							.string()
+							.optional()
+							.openapi({ description: "GitHub URL of the revert commit, when stored on GitHub" }),
+						pullRequest: pullRequestSchema
+							.optional()
+							.openapi({ description: "Pull request holding the revert, in pull request mode" }),
+					}),
+				},
+			},
+		},
+		400: {
+			description: "Bad request - not a config editor commit",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - not logged in or session expired",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		403: {
+			description: "Forbidden - the account is read-only",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		409: {
+			description: "Conflict - the config was changed by someone else",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+		500: {
+			description: "Server error",
+			content: {
+				"application/json": {
+					schema: z.object({
+						error: z.string(),
+						details: z.string().optional(),
+					}),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(revertRoute, async (c) => {
+	const { sha } = c.req.valid("json");
+
+	try {
+		const store = editableStore(c);
+		const commit = await store.getCommit(sha);
+		if (!commit.message.startsWith(COMMIT_PREFIX) || !commit.parentSha) {
+			return c.json({ error: "Only config editor commits can be undone" }, 400);
+		}
+
+		// Restore the config as of the commit's parent, upgraded to the
+		// current schema version
+		const current = await store.get();
+		const previous = await store.get(commit.parentSha);
+		const revert = await store.commit(
+			JSON.stringify(readConfig(previous.content), null, "\t"),
+			`Revert "${commitSummary(commit.message)}"`,
+			current.sha,
+			c.get("user").name,
+		);
+
+		return c.json(
+			{
+				configUpdated: true,
+				commitSha: revert.sha,
+				commitUrl: revert.url ?? undefined,
+				pullRequest: revert.pullRequest,
+			},
+			200,
+		);
+	} catch (error) {
+		if (error instanceof ConfigConflictError) {
+			return c.json({
+				error: "The config changed while undoing. Please try again.",
+			}, 409);
+		}
+
+		console.error("Error reverting config:", error);
+		return c.json(
+			{
+				error: "Failed to revert config",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
+
+// Pull request route
+const pullRequestRoute = createRoute({
+	method: "post",
+	path: "/pull-requests/{number}",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Merge or close a pull request",
+	description:
+		"Merge or close a pull request opened for an edit in pull request mode (GITHUB_PULL_REQUESTS)",
+	request: {
+		params: z.object({
+			number: z.coerce
+				.number()
+				.int()
+				.min(1)
+				.openapi({ param: { name: "number", in: "path" }, example: 12 }),
+		}),
+		body: {
+			content: {
+				"application/json": {
+					schema: z.object({
+						action: z.enum(["merge", "close"]),
+					}),
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Pull request merged or closed",
+			content: {
+				"application/json": {
+					schema: z.object({
+						configUpdated: z
+							.boolean()
+							.openapi({ description: "Whether merging changed the config" }),
+						commitSha: z
+							.string()
+							.optional()
+							.openapi({ description: "SHA of the merge commit (merge only)" }),
+						commitUrl: z
+							.string()
+							.optional()
+							.openapi({ description: "GitHub URL of the merge commit (merge only)" }),
+					}),
+				},
+			},
+		},
+		400: {
+			description: "Bad request - the config doesn't use pull requests",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - not logged in or session expired",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		403: {
+			description: "Forbidden - the account is read-only",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No such config editor pull request, or no config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		409: {
+			description: "Conflict - the pull request isn't open or can't be merged",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+		500: {
+			description: "Server error",
+			content: {
+				"application/json": {
+					schema: z.object({
+						error: z.string(),
+						details: z.string().optional(),
+					}),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(pullRequestRoute, async (c) => {
+	const { number } = c.req.valid("param");
+	const { action } = c.req.valid("json");
+
+	try {
+		const store = editableStore(c);
+		if (!store.mergePullRequest || !store.closePullRequest) {
+			return c.json({ error: "This config is edited without pull requests" }, 400);
+		}
+
+		if (action === "close") {
+			await store.closePullRequest(number);
+			return c.json({ configUpdated: false }, 200);
+		}
+		const merge = await store.mergePullRequest(number);
+		return c.json(
+			{ configUpdated: true, commitSha: merge.sha, commitUrl: merge.url ?? undefined },
+			200,
+		);
+	} catch (error) {
+		if (error instanceof PullRequestError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		console.error("Error resolving pull request:", error);
+		return c.json(
+			{
+				error: `Failed to ${action} pull request`,
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
+
+const DEFAULT_HISTORY_LIMIT = 10;
+const MAX_HISTORY_LIMIT = 30;
+
+const historyRoute = createRoute({
+	method: "get",
+	path: "/history",
+	middleware: [selectConfig, requireUser] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "List config changes",
+	description:
+		"List recent commits touching config.json with a milestone-level summary of each change",
+	request: {
+		query: z.object({
+			limit: z.coerce
+				.number()
+				.int()
+				.min(1)
+				.max(MAX_HISTORY_LIMIT)
+				.optional()
+				.openapi({ description: `Number of commits (default ${DEFAULT_HISTORY_LIMIT})` }),
+		}),
+	},
+	responses: {
+		200: {
+			description: "Config history, newest first",
+			content: {
+				"application/json": {
+					schema: z.object({
+						commits: z.array(
+							z.object({
+								sha: z.string(),
+								url: z.string().nullable().openapi({ description: "Null unless stored on GitHub" }),
+								message: z.string(),
+								author: z.string(),
+								date: z.string(),
+								diff: configDiffSchema
+									.nullable()
+									.openapi({ description: "Null if either version is not valid JSON" }),
+							}),
+						),
+					}),
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - not logged in or session expired",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+		500: {
+			description: "Server error",
+			content: {
+				"application/json": {
+					schema: z.object({
+						error: z.string(),
+						details: z.string().optional(),
+					}),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(historyRoute, async (c) => {
+	const { limit = DEFAULT_HISTORY_LIMIT } = c.req.valid("query");
+
+	try {
+		const commits = await getHistory(createConfigStore(c.env, c.get("configId")), limit);
+		return c.json({ commits }, 200);
+	} catch (error) {
+		console.error("Error fetching history:", error);
+		return c.json(
+			{
+				error: "Failed to fetch history",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
+
+const versionRoute = createRoute({
+	method: "get",
+	path: "/history/{sha}",
+	middleware: [selectConfig, requireUser] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Get a past config version",
+	description: "Return config.json as of the given commit",
+	request: {
+		params: z.object({
+			sha: z
+				.string()
+				.regex(/^[0-9a-f]{7,40}$/, "Expected a commit SHA")
+				.openapi({ param: { name: "sha", in: "path" } }),
+		}),
+	},
+	responses: {
+		200: {
+			description: "The config at that commit",
+			content: {
+				"application/json": {
+					schema: z.object({ sha: z.string(), config: configSchema }),
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - not logged in or session expired",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+		500: {
+			description: "Server error",
+			content: {
+				"application/json": {
+					schema: z.object({
+						error: z.string(),
+						details: z.string().optional(),
+					}),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(versionRoute, async (c) => {
+	const { sha } = c.req.valid("param");
+
+	try {
+		const { content } = await createConfigStore(c.env, c.get("configId")).get(sha);
+		return c.json({ sha, config: readConfig(content) }, 200);
+	} catch (error) {
+		console.error("Error fetching config version:", error);
+		return c.json(
+			{
+				error: "Failed to fetch config version",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
+
+// Webhook deliveries route
+const webhookDeliveriesRoute = createRoute({
+	method: "get",
+	path: "/webhooks/deliveries",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "List webhook deliveries",
+	description:
+		"List recent webhook deliveries for the config, newest first, to troubleshoot a receiver",
+	responses: {
+		200: {
+			description: "Recent deliveries",
+			content: {
+				"application/json": {
+					schema: z.object({ deliveries: z.array(webhookDeliverySchema) }),
+				},
+			},
+		},
+		401: {
+			description: "Unauthorized - not logged in or session expired",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		403: {
+			description: "Forbidden - the account is read-only",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+		500: {
+			description: "Server error",
+			content: {
+				"application/json": {
+					schema: z.object({
+						error: z.string(),
+						details: z.string().optional(),
+					}),
+				},
+			},
+		},
+	},
+});
+
+configApp.openapi(webhookDeliveriesRoute, async (c) => {
+	try {
+		const deliveries = await createDeliveryLog(c.env.WEBHOOK_DELIVERIES, c.get("configId")).list();
+		return c.json({ deliveries }, 200);
+	} catch (error) {
+		console.error("Error fetching webhook deliveries:", error);
+		return c.json(
+			{
+				error: "Failed to fetch webhook deliveries",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
+
+// Direct edits, for changes too simple to need the assistant
+
+// Saved config returned by every direct edit
+const editResultSchema = z.object({
+	config: configSchema,
+	commitSha: z.string().openapi({ description: "SHA of the new commit" }),
+	commitUrl: z
+		.string()
+		.optional()
+		.openapi({ description: "GitHub commit URL, when stored on GitHub" }),
+	pullRequest: pullRequestSchema
+		.optional()
+		.openapi({ description: "Pull request holding the commit, in pull request mode" }),
+	warnings: z
+		.array(configIssueSchema)
+		.optional()
+		.openapi({ description: "Validation warnings about the edited config" }),
+});
+
+// Not "id", which selects the config under /api/configs/{id}
+const milestoneIdParamsSchema = z.object({
+	milestoneId: milestoneIdSchema.openapi({
+		param: { name: "milestoneId", in: "path" },
+		description: "Stable id of the milestone, as listed by GET /milestones",
+		example: "flu-jab",
+	}),
+});
+
+// Milestone fields a client can set; ids are assigned by the worker
+const milestoneInputSchema = milestoneSchema.omit({ id: true });
+
+// Responses shared by the direct edit routes
+const editErrorResponses = {
+	400: {
+		description: "Bad request - invalid body or parameters",
+		content: {
+			"application/json": {
+				schema: z.object({ error: z.string() }),
+			},
+		},
+	},
+	401: {
+		description: "Unauthorized - not logged in or session expired",
+		content: {
+			"application/json": {
+				schema: z.object({ error: z.string() }),
+			},
+		},
+	},
+	403: {
+		description: "Forbidden - the account is read-only",
+		content: {
+			"application/json": {
+				schema: z.object({ error: z.string() }),
+			},
+		},
+	},
+	404: {
+		description: "No such milestone, or no config with this id",
+		content: {
+			"application/json": {
+				schema: z.object({ error: z.string() }),
+			},
+		},
+	},
+	409: {
+		description: "Conflict - the config was changed by someone else",
+		content: {
+			"application/json": {
+				schema: z.object({ error: z.string() }),
+			},
+		},
+	},
+	422: {
+		description: "The edit would make the config invalid",
+		content: {
+			"application/json": {
+				schema: z.object({ error: z.string(), issues: z.array(configIssueSchema) }),
+			},
+		},
+	},
+	429: {
+		description: "Too many requests",
+		headers: {
+			"Retry-After": {
+				description: "Seconds to wait before retrying",
+				schema: { type: "integer" as const },
+			},
+		},
+		content: {
+			"application/json": {
+				schema: z.object({ error: z.string(), retryAfter: z.number() }),
+			},
+		},
+	},
+	500: {
+		description: "Server error",
+		content: {
+			"application/json": {
+				schema: z.object({
+					error: z.string(),
+					details: z.string().optional(),
+				}),
+			},
+		},
+	},
+};
+
+// Commit a direct edit and map its failures to responses
+async function respondWithEdit(c: Context<AppEnv>, commit: () => Promise<EditResult>) {
+	try {
+		return c.json(await commit(), 200);
+	} catch (error) {
+		if (error instanceof OperationError) {
+			return c.json({ error: error.message }, 404);
+		}
+		if (error instanceof ConfigValidationError) {
+			return c.json({ error: error.message, issues: error.issues }, 422);
+		}
+		if (error instanceof ConfigConflictError) {
+			return c.json({ error: "The config changed while saving. Please reload and try again." }, 409);
+		}
+		if (error instanceof PullRequestError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		console.error("Error editing config:", error);
+		return c.json(
+			{
+				error: "Failed to save the edit",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+}
+
+// List milestones route
+const listMilestonesRoute = createRoute({
+	method: "get",
+	path: "/milestones",
+	middleware: [selectConfig] as const,
+	summary: "List milestones",
+	description: "Return the milestones of the latest config, in date order",
+	responses: {
+		200: {
+			description: "Milestones, each with its id",
+			content: {
+				"application/json": {
+					schema: z.object({
+						sha: z.string().openapi({ description: "Version of the config, for replacing milestones" }),
+						milestones: z.array(milestoneSchema),
+					}),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: editErrorResponses[429],
+		500: editErrorResponses[500],
+	},
+});
+
+configApp.openapi(listMilestonesRoute, async (c) => {
+	try {
+		const { content, sha } = await createConfigStore(c.env, c.get("configId")).get();
+		const { milestones } = readConfig(content);
+		return c.json({ sha, milestones }, 200);
+	} catch (error) {
+		console.error("Error fetching milestones:", error);
+		return c.json(
+			{
+				error: "Failed to fetch milestones",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
+
+// Add milestone route
+const addMilestoneRoute = createRoute({
+	method: "post",
+	path: "/milestones",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Add a milestone",
+	description:
+		"Add a milestone, keeping milestones in date order, and commit the config. The worker assigns its id.",
+	request: {
+		body: {
+			content: {
+				"application/json": {
+					schema: milestoneInputSchema,
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Milestone added",
+			content: {
+				"application/json": {
+					schema: editResultSchema,
+				},
+			},
+		},
+		...editErrorResponses,
+	},
+});
+
+configApp.openapi(addMilestoneRoute, (c) => {
+	const milestone = c.req.valid("json");
+	return respondWithEdit(c, () =>
+		commitEdit(c.env, editableStore(c), c.get("user"), () => [
+			{ type: "add_milestone", milestone },
+		]),
+	);
+});
+
+// Replace milestone route
+const updateMilestoneRoute = createRoute({
+	method: "put",
+	path: "/milestones/{milestoneId}",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Replace a milestone",
+	description:
+		"Replace a milestone's fields, keeping its id, and commit the config. Optional fields left out are removed.",
+	request: {
+		params: milestoneIdParamsSchema,
+		body: {
+			content: {
+				"application/json": {
+					schema: milestoneInputSchema,
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Milestone replaced",
+			content: {
+				"application/json": {
+					schema: editResultSchema,
+				},
+			},
+		},
+		...editErrorResponses,
+	},
+});
+
+configApp.openapi(updateMilestoneRoute, (c) => {
+	const { milestoneId } = c.req.valid("param");
+	const milestone = c.req.valid("json");
+	return respondWithEdit(c, () =>
+		commitEdit(c.env, editableStore(c), c.get("user"), (config) => {
+			const { label } = milestoneById(config, milestoneId);
+			return [
+				{
+					type: "update_milestone",
+					match: { id: milestoneId, label },
+					changes: {
+						...milestone,
+						offset: milestone.offset ?? null,
+						endDate: milestone.endDate ?? null,
+						endOffset: milestone.endOffset ?? null,
+						color: milestone.color ?? null,
+						description: milestone.description ?? null,
+						recurrence: milestone.recurrence ?? null,
+					},
+				},
+			];
+		}),
+	);
+});
+
+// Delete milestone route
+const deleteMilestoneRoute = createRoute({
+	method: "delete",
+	path: "/milestones/{milestoneId}",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Delete a milestone",
+	description: "Remove a milestone and commit the config",
+	request: {
+		params: milestoneIdParamsSchema,
+	},
+	responses: {
+		200: {
+			description: "Milestone removed",
+			content: {
+				"application/json": {
+					schema: editResultSchema,
+				},
+			},
+		},
+		...editErrorResponses,
+	},
+});
+
+configApp.openapi(deleteMilestoneRoute, (c) => {
+	const { milestoneId } = c.req.valid("param");
+	return respondWithEdit(c, () =>
+		commitEdit(c.env, editableStore(c), c.get("user"), (config) => {
+			const { label } = milestoneById(config, milestoneId);
+			return [{ type: "remove_milestone", match: { id: milestoneId, label } }];
+		}),
+	);
+});
+
+// Replace milestones route
+const replaceMilestonesRoute = createRoute({
+	method: "put",
+	path: "/milestones",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Replace all milestones",
+	description:
+		"Save a whole edited list of milestones in one commit. Milestones keep their ids; those without one are new. Validation issues point at positions in the submitted list. In pull request mode, pass the pull request an earlier save opened to update it instead of opening another.",
+	request: {
+		body: {
+			content: {
+				"application/json": {
+					schema: z.object({
+						baseSha: z
+							.string()
+							.openapi({ description: "sha from GET /milestones that the edits were made to" }),
+						milestones: z.array(milestoneSchema),
+						pullRequest: z.number().int().positive().optional().openapi({
+							description: "Open pull request from an earlier save to put these edits in, in pull request mode",
+						}),
+					}),
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Milestones replaced",
+			content: {
+				"application/json": {
+					schema: editResultSchema,
+				},
+			},
+		},
+		...editErrorResponses,
+	},
+});
+
+configApp.openapi(replaceMilestonesRoute, (c) => {
+	const { baseSha, milestones, pullRequest } = c.req.valid("json");
+	const store = editableStore(c);
+	if (pullRequest !== undefined && !store.updatePullRequest) {
+		return c.json({ error: "This config is edited without pull requests" }, 400);
+	}
+	return respondWithEdit(c, () =>
+		replaceMilestones(c.env, store, c.get("user"), milestones, baseSha, pullRequest),
+	);
+});
+
+// Every config's routes live under /api/configs/:id; the default config's
+// are also served from /api, as before there were several configs
+app.route("/api", configApp);
+app.route("/api/configs/:id", configApp);
+
+// Config route
+const configRoute = createRoute({
+	method: "get",
+	path: "/api/configs/{id}",
+	middleware: [selectConfig] as const,
+	summary: "Get a config",
+	description: "Return the latest version of a config. Configs are public, like the site.",
+	request: {
+		params: z.object({
+			id: z.string().openapi({ param: { name: "id", in: "path" }, example: "default" }),
+		}),
+	},
+	responses: {
+		200: {
+			description: "The latest config",
+			content: {
+				"application/json": {
+					schema: z.object({ id: z.string(), sha: z.string(), config: configSchema }),
+				},
+			},
+		},
+		404: {
+			description: "No config with this id",
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string() }),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+		500: {
+			description: "Server error",
+			content: {
+				"application/json": {
+					schema: z.object({
+						error: z.string(),
+						details: z.string().optional(),
+					}),
+				},
+			},
+		},
+	},
+});
+
+async function latestConfig(c: Context<AppEnv>) {
+	const id = c.get("configId");
+
+	try {
+		const { content, sha } = await createConfigStore(c.env, id).get();
+		return c.json({ id, sha, config: readConfig(content) }, 200);
+	} catch (error) {
+		console.error("Error fetching config:", error);
+		return c.json(
+			{
+				error: "Failed to fetch config",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+}
+
+app.openapi(configRoute, latestConfig);
+
+// The default config at a fixed URL, for the site and other clients that
+// only know about one config
+const defaultConfigRoute = createRoute({
+	...configRoute,
+	path: "/api/config",
+	summary: "Get the default config",
+	description: "Return the latest version of the default config",
+	request: {},
+});
+
+app.openapi(defaultConfigRoute, latestConfig);
+
+const configFieldsSchema = z
+	.object({
+		startDate: isoDateSchema.optional(),
+		dueDate: isoDateSchema.optional(),
+		todayEmoji: z.string().min(1).optional(),
+	})
+	.refine((fields) => Object.values(fields).some((value) => value !== undefined), {
+		message: "Expected at least one of startDate, dueDate or todayEmoji",
+	});
+
+// Update config fields route
+const updateConfigRoute = createRoute({
+	method: "patch",
+	path: "/api/configs/{id}",
+	middleware: [selectConfig, requireUser, requireEditor] as const,
+	security: [{ bearerAuth: [] }],
+	summary: "Update config fields",
+	description: "Change the start date, due date or today emoji and commit the config",
+	request: {
+		params: z.object({
+			id: z.string().openapi({ param: { name: "id", in: "path" }, example: "default" }),
+		}),
+		body: {
+			content: {
+				"application/json": {
+					schema: configFieldsSchema,
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: "Config updated",
+			content: {
+				"application/json": {
+					schema: editResultSchema,
+				},
+			},
+		},
+		...editErrorResponses,
+	},
+});
+
+function fieldOperations({
+	startDate,
+	dueDate,
+	todayEmoji,
+}: z.infer<typeof configFieldsSchema>): EditOperation[] {
+	const operations: EditOperation[] = [];
+	if (startDate) operations.push({ type: "set_start_date", date: startDate });
+	if (dueDate) operations.push({ type: "set_due_date", date: dueDate });
+	if (todayEmoji) operations.push({ type: "set_today_emoji", emoji: todayEmoji });
+	return operations;
+}
+
+app.openapi(updateConfigRoute, (c) => {
+	const operations = fieldOperations(c.req.valid("json"));
+	return respondWithEdit(c, () =>
+		commitEdit(c.env, editableStore(c), c.get("user"), () => operations),
+	);
+});
+
+const updateDefaultConfigRoute = createRoute({
+	...updateConfigRoute,
+	path: "/api/config",
+	summary: "Update default config fields",
+	request: {
+		body: updateConfigRoute.request.body,
+	},
+});
+
+app.openapi(updateDefaultConfigRoute, (c) => {
+	const operations = fieldOperations(c.req.valid("json"));
+	return respondWithEdit(c, () =>
+		commitEdit(c.env, editableStore(c), c.get("user"), () => operations),
+	);
+});
+
+// The config's shape as JSON Schema, for editors and other clients.
+// Semantic rules such as known colours aren't expressed in it.
+const configJsonSchema = zodToJsonSchema(configSchema, {
+	// Inline the shared date schema rather than pointing at its first use
+	$refStrategy: "none",
+});
+
+// Config schema route
+const schemaRoute = createRoute({
+	method: "get",
+	path: "/api/schema",
+	summary: "Get the config JSON Schema",
+	description: "JSON Schema (draft-07) of config.json, shared by every config",
+	responses: {
+		200: {
+			description: "JSON Schema of a config",
+			content: {
+				"application/json": {
+					schema: z.record(z.string(), z.any()),
+				},
+			},
+		},
+		429: {
+			description: "Too many requests",
+			headers: {
+				"Retry-After": {
+					description: "Seconds to wait before retrying",
+					schema: { type: "integer" },
+				},
+			},
+			content: {
+				"application/json": {
+					schema: z.object({ error: z.string(), retryAfter: z.number() }),
+				},
+			},
+		},
+	},
+});
+
+app.openapi(schemaRoute, (c) => c.json(configJsonSchema, 200));
+
+// Routes with `security` expect an access token from /api/auth/login
+app.openAPIRegistry.registerComponent("securitySchemes", "bearerAuth", {
+	type: "http",
+	scheme: "bearer",
+	bearerFormat: "JWT",
+});
+
+// OpenAPI doc endpoint
+app.doc("/openapi.json", {
+	openapi: "3.1.0",
+	info: {
+		title: "Meanwhile Config Editor API",
+		version: "1.0.0",
+		description:
+			"Chat-based API for editing the Meanwhile pregnancy tracker config via natural language",
+	},
+});
+
+// Misconfiguration (e.g. a missing SESSION_SECRET) surfaces from middleware
+app.onError((error, c) => {
+	console.error("Unhandled error:", error);
+	const misconfigured =
+		error instanceof AuthConfigError ||
+		error instanceof TenantConfigError ||
+		error instanceof WebhookConfigError;
+	return c.json(
+		{
+			error: "Internal server error",
+			details: misconfigured ? error.message : undefined,
+		},
+		500,
+	);
+});
+
 export default app;
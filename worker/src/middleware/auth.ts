@@ -0,0 +1,78 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { createSessionManager } from "../services/auth";
+import { createRateLimiter, DEFAULT_RATE_LIMITS } from "../services/rateLimit";
+import { createKeyValueStore } from "../services/store";
+import type { AppEnv } from "../types";
+
+function getRateLimiter(c: Context<AppEnv>) {
+	return createRateLimiter(createKeyValueStore(c.env.RATE_LIMITS, "rate-limits"), {
+		perIp: Number(c.env.RATE_LIMIT_PER_IP) || DEFAULT_RATE_LIMITS.perIp,
+		global: Number(c.env.RATE_LIMIT_GLOBAL) || DEFAULT_RATE_LIMITS.global,
+	});
+}
+
+function clientIp(c: Context<AppEnv>): string {
+	return c.req.header("CF-Connecting-IP") ?? "unknown";
+}
+
+function tooManyRequests(c: Context<AppEnv>, retryAfter: number, error: string) {
+	c.header("Retry-After", String(retryAfter));
+	return c.json({ error, retryAfter }, 429);
+}
+
+// Config and schema reads anyone can make, on every page load
+const PUBLIC_READ_PATTERN = /^\/api\/(config|configs\/[^/]+|schema)$/;
+
+// Per-IP and global request throttling for all API routes. Public reads are
+// only throttled per IP, so they can't use up the global limit.
+export const rateLimit = createMiddleware<AppEnv>(async (c, next) => {
+	const publicRead = c.req.method === "GET" && PUBLIC_READ_PATTERN.test(c.req.path);
+	const retryAfter = await getRateLimiter(c).checkRequest(clientIp(c), publicRead);
+	if (retryAfter !== null) {
+		return tooManyRequests(c, retryAfter, "Too many requests");
+	}
+	await next();
+});
+
+// Locks out IPs that keep failing to log in, to the config they're logging
+// in to, so runs after selectConfig. The wrapped handler signals a failed
+// attempt by responding 401.
+export const loginThrottle = createMiddleware<AppEnv>(async (c, next) => {
+	const limiter = getRateLimiter(c);
+	const client = `${c.get("configId")}:${clientIp(c)}`;
+
+	const lockout = await limiter.checkLockout(client);
+	if (lockout !== null) {
+		return tooManyRequests(c, lockout, "Too many failed login attempts");
+	}
+
+	await next();
+
+	if (c.res.status === 401) {
+		await limiter.recordFailure(client);
+	} else if (c.res.ok) {
+		await limiter.recordSuccess(client);
+	}
+});
+
+// Rejects requests without a valid session token and exposes the user
+export const requireUser = createMiddleware<AppEnv>(async (c, next) => {
+	const header = c.req.header("Authorization");
+	const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : null;
+	const user = token ? await createSessionManager(c.env, c.get("configId")).authenticate(token) : null;
+	if (!user) {
+		return c.json({ error: "Not logged in or session expired" }, 401);
+	}
+
+	c.set("user", user);
+	await next();
+});
+
+// Only lets editors through; use after requireUser
+export const requireEditor = createMiddleware<AppEnv>(async (c, next) => {
+	if (c.get("user").role !== "editor") {
+		return c.json({ error: "Your account can only view the config" }, 403);
+	}
+	await next();
+});
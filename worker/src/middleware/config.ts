@@ -0,0 +1,18 @@
+import { createMiddleware } from "hono/factory";
+import { configBindings, DEFAULT_CONFIG_ID } from "../services/configs";
+import type { AppEnv } from "../types";
+
+// Picks the config a request is for from the :id path parameter (the default
+// config on routes without one) and swaps in that config's bindings. Runs
+// before requireUser, since accounts belong to a config.
+export const selectConfig = createMiddleware<AppEnv>(async (c, next) => {
+	const configId = c.req.param("id") ?? DEFAULT_CONFIG_ID;
+	const env = configBindings(c.env, configId);
+	if (!env) {
+		return c.json({ error: `No config named "${configId}"` }, 404);
+	}
+
+	c.env = env;
+	c.set("configId", configId);
+	await next();
+});
@@ -0,0 +1,170 @@
+import type { LlmTool } from "../services/llm";
+import { MILESTONE_COLORS, RECURRENCE_FREQUENCIES, WEEKDAYS } from "../../../src/schema";
+
+// Function definitions offered to the model. Each call becomes an
+// EditOperation of the same type, with the call arguments as its fields.
+
+const DATE = { type: "string", description: "YYYY-MM-DD" };
+
+const COLOR = {
+	type: "string",
+	enum: [...MILESTONE_COLORS],
+};
+
+const OFFSET = {
+	type: "object",
+	description: "A day in the pregnancy instead of a date: weeks and days since startDate (12+3 is week 12, day 3), or before dueDate",
+	properties: {
+		week: { type: "integer" },
+		day: { type: "integer", description: "0 to 6 (default 0)" },
+		from: {
+			type: "string",
+			enum: ["startDate", "dueDate"],
+			description: "Count on from startDate (default) or back from dueDate",
+		},
+	},
+	required: ["week"],
+};
+
+const RECURRENCE = {
+	type: "object",
+	description: "Makes the milestone repeat from its date",
+	properties: {
+		frequency: { type: "string", enum: [...RECURRENCE_FREQUENCIES] },
+		interval: { type: "integer", description: "Every this many days, weeks or months (default 1)" },
+		byWeekday: {
+			type: "array",
+			items: { type: "string", enum: [...WEEKDAYS] },
+			description: "Weekly only: days of the week (default the milestone's)",
+		},
+		until: { ...DATE, description: "YYYY-MM-DD, last day it may recur on" },
+		count: { type: "integer", description: "Number of occurrences; use until or count, not both" },
+		exceptions: {
+			type: "array",
+			items: DATE,
+			description: "Dates of occurrences to skip",
+		},
+	},
+	required: ["frequency"],
+};
+
+const MATCH = {
+	type: "object",
+	description: "Identifies an existing milestone, by id if it has one or else by label",
+	properties: {
+		id: { type: "string", description: "id of the milestone" },
+		label: { type: "string", description: "Exact label of the milestone" },
+		date: {
+			...DATE,
+			description: "Current date of the milestone, needed only when matching by a label several share",
+		},
+	},
+};
+
+export const EDIT_TOOLS: LlmTool[] = [
+	{
+		type: "function",
+		function: {
+			name: "add_milestone",
+			description: "Add a new milestone, with either a date or an offset",
+			parameters: {
+				type: "object",
+				properties: {
+					milestone: {
+						type: "object",
+						properties: {
+							date: DATE,
+							offset: OFFSET,
+							endDate: { ...DATE, description: "YYYY-MM-DD, for multi-day events" },
+							endOffset: { ...OFFSET, description: "Last day of a multi-day event, as an offset" },
+							label: { type: "string" },
+							emoji: { type: "string" },
+							color: COLOR,
+							description: { type: "string" },
+							recurrence: RECURRENCE,
+						},
+						required: ["label", "emoji"],
+					},
+				},
+				required: ["milestone"],
+			},
+		},
+	},
+	{
+		type: "function",
+		function: {
+			name: "update_milestone",
+			description:
+				"Change fields of an existing milestone. Only include fields that change; set endDate, endOffset, color, description or recurrence to null to remove them. A date replaces an offset and the other way round. A recurrence replaces the existing one, so include every part of it that should stay.",
+			parameters: {
+				type: "object",
+				properties: {
+					match: MATCH,
+					changes: {
+						type: "object",
+						properties: {
+							date: DATE,
+							offset: OFFSET,
+							endDate: { type: ["string", "null"], description: "YYYY-MM-DD or null" },
+							endOffset: { ...OFFSET, type: ["object", "null"] },
+							label: { type: "string" },
+							emoji: { type: "string" },
+							color: { type: ["string", "null"], enum: [...COLOR.enum, null] },
+							description: { type: ["string", "null"] },
+							recurrence: { ...RECURRENCE, type: ["object", "null"] },
+						},
+					},
+				},
+				required: ["match", "changes"],
+			},
+		},
+	},
+	{
+		type: "function",
+		function: {
+			name: "remove_milestone",
+			description: "Remove an existing milestone",
+			parameters: {
+				type: "object",
+				properties: { match: MATCH },
+				required: ["match"],
+			},
+		},
+	},
+	{
+		type: "function",
+		function: {
+			name: "set_start_date",
+			description: "Change the start date of the pregnancy",
+			parameters: {
+				type: "object",
+				properties: { date: DATE },
+				required: ["date"],
+			},
+		},
+	},
+	{
+		type: "function",
+		function: {
+			name: "set_due_date",
+			description: "Change the due date",
+			parameters: {
+				type: "object",
+				properties: { date: DATE },
+				required: ["date"],
+			},
+		},
+	},
+	{
+		type: "function",
+		function: {
+			name: "set_today_emoji",
+			description: "Change the emoji used for the today marker",
+			parameters: {
+				type: "object",
+				properties: { emoji: { type: "string" } },
+				required: ["emoji"],
+			},
+		},
+	},
+];
@@ -0,0 +1,208 @@
+import { sign, verify } from "hono/jwt";
+import { createKeyValueStore } from "./store";
+
+// editors can change the config, viewers can only look at its history
+export type Role = "editor" | "viewer";
+
+export type User = {
+	name: string;
+	role: Role;
+};
+
+type Account = User & { password: string };
+
+export type AuthBindings = {
+	// Secret used to sign session tokens
+	SESSION_SECRET?: string;
+	// JSON array of { name, password, role } accounts
+	USERS?: string;
+	// Legacy shared PIN, used as the password for any name when USERS is unset
+	PIN?: string;
+	// Optional KV namespace for revoked sessions (in-memory when unbound)
+	SESSIONS?: KVNamespace;
+};
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Thrown when accounts or the session secret are missing or malformed
+export class AuthConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "AuthConfigError";
+	}
+}
+
+function parseAccounts(users: string): Account[] {
+	let accounts: unknown;
+	try {
+		accounts = JSON.parse(users);
+	} catch {
+		throw new AuthConfigError("USERS is not valid JSON");
+	}
+
+	const valid =
+		Array.isArray(accounts) &&
+		accounts.every(
+			(account) =>
+				typeof account?.name === "string" &&
+				typeof account.password === "string" &&
+				(account.role === "editor" || account.role === "viewer"),
+		);
+	if (!valid) {
+		throw new AuthConfigError("USERS must be an array of { name, password, role }");
+	}
+	return accounts as Account[];
+}
+
+// Look up an account by name (case-insensitive), or null if there is none
+export function findAccount(env: AuthBindings, name: string): Account | null {
+	if (env.USERS) {
+		const lower = name.toLowerCase();
+		return parseAccounts(env.USERS).find((a) => a.name.toLowerCase() === lower) ?? null;
+	}
+	// Without accounts everyone shares the PIN and can edit
+	return env.PIN ? { name, password: env.PIN, role: "editor" } : null;
+}
+
+// Compare digests so the time taken doesn't leak how much of a password matched
+async function safeEqual(a: string, b: string): Promise<boolean> {
+	const encoder = new TextEncoder();
+	const [da, db] = await Promise.all([
+		crypto.subtle.digest("SHA-256", encoder.encode(a)),
+		crypto.subtle.digest("SHA-256", encoder.encode(b)),
+	]);
+	const ba = new Uint8Array(da);
+	const bb = new Uint8Array(db);
+	let diff = 0;
+	for (let i = 0; i < ba.length; i++) {
+		diff |= ba[i] ^ bb[i];
+	}
+	return diff === 0;
+}
+
+export async function checkPassword(
+	env: AuthBindings,
+	name: string,
+	password: string,
+): Promise<User | null> {
+	const account = findAccount(env, name);
+	// Still hash on unknown names so they take as long as wrong passwords
+	const matches = await safeEqual(account?.password ?? "", password);
+	return account && matches ? { name: account.name, role: account.role } : null;
+}
+
+export type SessionTokens = {
+	accessToken: string;
+	refreshToken: string;
+	// Seconds until the access token expires
+	expiresIn: number;
+	user: User;
+};
+
+type TokenClaims = {
+	sub: string;
+	role: Role;
+	typ: "access" | "refresh";
+	// Session id, shared by every token issued after the same login
+	sid: string;
+	// Config the session was opened for; tokens only work for that config
+	cfg: string;
+	jti: string;
+	iat: number;
+	exp: number;
+};
+
+export function createSessionManager(env: AuthBindings, configId: string) {
+	if (!env.SESSION_SECRET) {
+		throw new AuthConfigError("SESSION_SECRET is not configured");
+	}
+	const secret = env.SESSION_SECRET;
+	const sessions = createKeyValueStore(env.SESSIONS, "sessions");
+
+	async function issue(user: User, sid: string): Promise<SessionTokens> {
+		const now = Math.floor(Date.now() / 1000);
+		const token = (typ: TokenClaims["typ"], ttl: number) => {
+			const claims: TokenClaims = {
+				sub: user.name,
+				role: user.role,
+				typ,
+				sid,
+				cfg: configId,
+				jti: crypto.randomUUID(),
+				iat: now,
+				exp: now + ttl,
+			};
+			return sign(claims, secret, "HS256");
+		};
+
+		return {
+			accessToken: await token("access", ACCESS_TOKEN_TTL_SECONDS),
+			refreshToken: await token("refresh", REFRESH_TOKEN_TTL_SECONDS),
+			expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+			user,
+		};
+	}
+
+	// Verified claims of a live token of the given type, or null
+	async function readToken(
+		token: string,
+		typ: TokenClaims["typ"],
+	): Promise<TokenClaims | null> {
+		let claims: TokenClaims;
+		try {
+			claims = (await verify(token, secret, "HS256")) as TokenClaims;
+		} catch {
+			return null;
+		}
+		if (claims.typ !== typ || claims.cfg !== configId) return null;
+		if (await sessions.get(`revoked:${claims.sid}`)) return null;
+		return claims;
+	}
+
+	async function revokeSession(sid: string) {
+		await sessions.put(`revoked:${sid}`, true, REFRESH_TOKEN_TTL_SECONDS);
+	}
+
+	return {
+		start(user: User): Promise<SessionTokens> {
+			return issue(user, crypto.randomUUID());
+		},
+
+		// The user an access token was issued to, or null if it isn't valid
+		async authenticate(accessToken: string): Promise<User | null> {
+			const claims = await readToken(accessToken, "access");
+			return claims ? { name: claims.sub, role: claims.role } : null;
+		},
+
+		// Swap a refresh token for a new pair. Each refresh token works once;
+		// seeing one again means it leaked, so the whole session is revoked.
+		async refresh(refreshToken: string): Promise<SessionTokens | null> {
+			const claims = await readToken(refreshToken, "refresh");
+			if (!claims) return null;
+
+			const usedKey = `used:${claims.jti}`;
+			if (await sessions.get(usedKey)) {
+				await revokeSession(claims.sid);
+				return null;
+			}
+			await sessions.put(usedKey, true, claims.exp - Math.floor(Date.now() / 1000));
+
+			// Pick up role changes and removed accounts
+			const account = findAccount(env, claims.sub);
+			if (!account) {
+				await revokeSession(claims.sid);
+				return null;
+			}
+			return issue({ name: account.name, role: account.role }, claims.sid);
+		},
+
+		// Log out every token in the refresh token's session
+		async revoke(refreshToken: string): Promise<void> {
+			const claims = await readToken(refreshToken, "refresh");
+			if (claims) await revokeSession(claims.sid);
+		},
+	};
+}
+
+export type SessionManager = ReturnType<typeof createSessionManager>;
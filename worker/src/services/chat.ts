@@ -0,0 +1,197 @@
+import type { Bindings } from "../types";
+import type { User } from "./auth";
+import type { ConfigStore } from "./configStore";
+import { diffConfigs, type ConfigDiff } from "./diff";
+import { editConfig, type ChatTurn, type EditAttempt } from "./editor";
+import { ConfigConflictError, type PullRequest } from "./github";
+import { createLlmProvider } from "./llm";
+import { OperationError, type EditOperation } from "./operations";
+import { createProposalStore } from "./proposals";
+import { parseRuleSeverities } from "./rules";
+import { readConfig, validateConfig, type ConfigIssue, type ConfigJSON } from "./validator";
+
+// How many times to re-run an edit whose commit lost a race
+const MAX_CONFLICT_RETRIES = 2;
+
+// How many times the model may correct an edit that failed validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export type ChatRequest = {
+	message: string;
+	history?: ChatTurn[];
+	// commit (default) commits immediately; preview stores a proposal
+	mode?: "commit" | "preview";
+};
+
+export type ChatResult = {
+	response: string;
+	configUpdated: boolean;
+	commitSha?: string;
+	// Only for stores with a web UI (GitHub)
+	commitUrl?: string;
+	// Set in pull request mode, where the commit waits to be merged
+	pullRequest?: PullRequest;
+	operations?: EditOperation[];
+	proposalId?: string;
+	proposedConfig?: string;
+	diff?: ConfigDiff;
+	// Validation warnings about the edited config
+	warnings?: ConfigIssue[];
+	// Rejected edits the model made before the final one, oldest first
+	attempts?: EditAttempt[];
+};
+
+// generating restarts (and discards earlier text) when an edit is re-run
+// after a conflict; repairing does the same after a rejected edit
+export type ChatPhase = "generating" | "validating" | "repairing" | "committing";
+
+export type ChatProgress = {
+	onText?: (delta: string) => void;
+	onPhase?: (phase: ChatPhase) => void;
+};
+
+type GeneratedEdit = {
+	response: string;
+	// Null when the model made no edit or never produced a valid one
+	newConfig: string | null;
+	operations: EditOperation[];
+	warnings: ConfigIssue[];
+	attempts: EditAttempt[];
+};
+
+// Ask the model for an edit and validate it, feeding rejected edits back
+// to the model up to MAX_REPAIR_ATTEMPTS times
+async function generateEdit(
+	env: Bindings,
+	currentConfig: string,
+	{ message, history }: ChatRequest,
+	{ onText, onPhase }: ChatProgress,
+): Promise<GeneratedEdit> {
+	const llm = createLlmProvider(env);
+	const severities = parseRuleSeverities(env.VALIDATION_RULES);
+	const attempts: EditAttempt[] = [];
+
+	for (;;) {
+		let rejected: EditAttempt;
+		try {
+			const result = await editConfig(llm, currentConfig, message, {
+				history,
+				attempts,
+				onText,
+			});
+
+			// If no changes needed, return just the response
+			if (!result.newConfig) {
+				return { ...result, warnings: [], attempts };
+			}
+
+			// Validate the new config before committing
+			onPhase?.("validating");
+			const validation = validateConfig(result.newConfig, severities);
+			if (validation.valid) {
+				return { ...result, warnings: validation.issues, attempts };
+			}
+			rejected = {
+				operations: result.operations,
+				issues: validation.issues.filter((issue) => issue.severity === "error"),
+			};
+		} catch (error) {
+			// The model asked for an edit that doesn't fit the current config
+			if (!(error instanceof OperationError)) throw error;
+			rejected = {
+				operations: [],
+				issues: [{ path: "", message: error.message, severity: "error" }],
+			};
+		}
+
+		attempts.push(rejected);
+		if (attempts.length > MAX_REPAIR_ATTEMPTS) {
+			const reasons = rejected.issues.map((issue) => issue.message).join("; ");
+			return {
+				response: `I tried to update the config ${attempts.length} times but couldn't produce a valid edit: ${reasons}`,
+				newConfig: null,
+				operations: [],
+				warnings: [],
+				attempts,
+			};
+		}
+		onPhase?.("repairing");
+	}
+}
+
+// Run one chat turn: ask the model for an edit, validate it, then commit it
+// or store it as a proposal. Throws ConfigConflictError if the config keeps
+// changing underneath the edit.
+export async function runChat(
+	env: Bindings,
+	store: ConfigStore,
+	configId: string,
+	user: User,
+	request: ChatRequest,
+	progress: ChatProgress = {},
+): Promise<ChatResult> {
+	const { message, mode = "commit" } = request;
+
+	// If someone else commits while the model is working, re-run the
+	// edit against their version rather than overwriting it
+	for (let attempt = 0; ; attempt++) {
+		progress.onPhase?.("generating");
+
+		const current = await store.get();
+
+		const edit = await generateEdit(env, current.content, request, progress);
+		const attempts = edit.attempts.length ? edit.attempts : undefined;
+		const warnings = edit.warnings.length ? edit.warnings : undefined;
+
+		if (!edit.newConfig) {
+			return { response: edit.response, configUpdated: false, attempts };
+		}
+
+		// In preview mode, hold the edit until the user confirms it
+		if (mode === "preview") {
+			const proposalId = crypto.randomUUID();
+			await createProposalStore(env.PROPOSALS).put(proposalId, {
+				configId,
+				config: edit.newConfig,
+				baseSha: current.sha,
+				message,
+				createdAt: Date.now(),
+			});
+
+			return {
+				response: edit.response,
+				configUpdated: false,
+				operations: edit.operations,
+				proposalId,
+				proposedConfig: edit.newConfig,
+				diff: diffConfigs(
+					readConfig(current.content),
+					readConfig(edit.newConfig),
+				),
+				warnings,
+				attempts,
+			};
+		}
+
+		progress.onPhase?.("committing");
+		try {
+			const commit = await store.commit(edit.newConfig, message, current.sha, user.name);
+
+			return {
+				response: edit.response,
+				configUpdated: true,
+				commitSha: commit.sha,
+				commitUrl: commit.url ?? undefined,
+				pullRequest: commit.pullRequest,
+				operations: edit.operations,
+				warnings,
+				attempts,
+			};
+		} catch (error) {
+			if (error instanceof ConfigConflictError && attempt < MAX_CONFLICT_RETRIES) {
+				continue;
+			}
+			throw error;
+		}
+	}
+}
@@ -0,0 +1,31 @@
+// Commit messages written by the config editor, shared by all config stores
+
+// Prefix marking commits made through the config editor
+export const COMMIT_PREFIX = "[Config Editor] ";
+
+// Trailer naming the signed-in user behind a commit, since GitHub
+// attributes them all to the token's owner
+const EDITED_BY_TRAILER = "Edited-by: ";
+const EDITED_BY_PATTERN = /^Edited-by: (.+)$/;
+
+// Messages come from users and the model, so they're kept to one line;
+// otherwise one could end in a trailer of its own naming someone else
+function oneLine(text: string): string {
+	return text.trim().replace(/\s*\n\s*/g, " ");
+}
+
+export function formatCommitMessage(message: string, user: string): string {
+	return `${COMMIT_PREFIX}${oneLine(message)}\n\n${EDITED_BY_TRAILER}${oneLine(user)}`;
+}
+
+// The user named in the trailer on a commit message's last line, if any
+export function editedBy(message: string): string | null {
+	const lastLine = message.trimEnd().split("\n").pop() ?? "";
+	return lastLine.match(EDITED_BY_PATTERN)?.[1].trim() ?? null;
+}
+
+// First line of a config editor commit message, without the prefix
+export function commitSummary(message: string): string {
+	const summary = message.split("\n")[0];
+	return summary.startsWith(COMMIT_PREFIX) ? summary.slice(COMMIT_PREFIX.length) : summary;
+}
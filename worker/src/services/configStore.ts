@@ -0,0 +1,250 @@
+import bundledConfig from "../../../src/config.json";
+import { formatCommitMessage } from "./commitMessage";
+import { describeDiff, diffConfigs } from "./diff";
+import {
+	closePullRequest,
+	commitConfig,
+	ConfigConflictError,
+	getCommit,
+	getConfig,
+	listConfigCommits,
+	mergePullRequest,
+	openPullRequest,
+	updatePullRequest,
+	type CommitInfo,
+	type CommitRef,
+	type ConfigFile,
+	type GitHubRepo,
+} from "./github";
+import { createKeyValueStore, type KeyValueStore } from "./store";
+import { readConfig } from "./validator";
+
+// Where the config and its history are kept. Every store versions the
+// config like git: each commit has a SHA, a parent and a message.
+export type ConfigStore = {
+	// Config at a commit, or the latest version when ref is omitted
+	get(ref?: string): Promise<ConfigFile>;
+	// Save new content on top of the version read with get, on behalf of the
+	// named user. Throws ConfigConflictError if the config has changed since.
+	// In pull request mode the commit goes to a pull request instead.
+	commit(content: string, message: string, baseSha: string, user: string): Promise<CommitRef>;
+	getCommit(sha: string): Promise<CommitInfo>;
+	// Most recent commits, newest first
+	listCommits(limit: number): Promise<CommitInfo[]>;
+	// Only in pull request mode. These throw PullRequestError for pull
+	// requests that aren't open ones from commit. updatePullRequest replaces
+	// the edit in one, like commit does for the config.
+	updatePullRequest?(
+		number: number,
+		content: string,
+		message: string,
+		baseSha: string,
+		user: string,
+	): Promise<CommitRef>;
+	mergePullRequest?(number: number): Promise<CommitRef>;
+	closePullRequest?(number: number): Promise<void>;
+};
+
+export type ConfigStoreBindings = {
+	// "github" (default), "kv" or "memory"
+	CONFIG_STORE?: string;
+	GITHUB_TOKEN?: string;
+	// Repository holding the config, defaulting to this app's own repo
+	GITHUB_OWNER?: string;
+	GITHUB_REPO?: string;
+	GITHUB_BRANCH?: string;
+	GITHUB_CONFIG_PATH?: string;
+	// "true" to open a pull request for each edit instead of committing to
+	// GITHUB_BRANCH
+	GITHUB_PULL_REQUESTS?: string;
+	// KV namespace for the "kv" store
+	CONFIGS?: KVNamespace;
+};
+
+const DEFAULT_REPO: Omit<GitHubRepo, "token"> = {
+	owner: "mfbx9da4",
+	repo: "meanwhile",
+	path: "src/config.json",
+	branch: "main",
+};
+
+// Pull request description saying what was asked for and the milestones
+// the edit changes. Throws ConfigConflictError if the config has changed
+// since baseSha.
+async function describeProposal(
+	repo: GitHubRepo,
+	content: string,
+	message: string,
+	baseSha: string,
+	user: string,
+): Promise<string> {
+	const current = await getConfig(repo);
+	if (current.sha !== baseSha) {
+		throw new ConfigConflictError();
+	}
+
+	const changes = describeDiff(
+		diffConfigs(readConfig(current.content), readConfig(content)),
+	);
+	return [
+		message
+			.split("\n")
+			.map((line) => `> ${line}`)
+			.join("\n"),
+		"",
+		`Requested by ${user} in the config editor.`,
+		"",
+		"### Changes",
+		"",
+		...(changes.length ? changes.map((change) => `- ${change}`) : ["No visible changes"]),
+	].join("\n");
+}
+
+// Open a pull request for an edit
+async function proposeConfig(
+	repo: GitHubRepo,
+	content: string,
+	message: string,
+	baseSha: string,
+	user: string,
+): Promise<CommitRef> {
+	const body = await describeProposal(repo, content, message, baseSha, user);
+	return openPullRequest(repo, content, message, baseSha, user, body);
+}
+
+function createGitHubConfigStore(repo: GitHubRepo, pullRequests: boolean): ConfigStore {
+	const store: ConfigStore = {
+		get: (ref) => getConfig(repo, ref),
+		commit: (content, message, baseSha, user) =>
+			commitConfig(repo, content, message, baseSha, user),
+		getCommit: (sha) => getCommit(repo, sha),
+		listCommits: (limit) => listConfigCommits(repo, limit),
+	};
+	if (!pullRequests) return store;
+
+	return {
+		...store,
+		commit: (content, message, baseSha, user) =>
+			proposeConfig(repo, content, message, baseSha, user),
+		updatePullRequest: async (number, content, message, baseSha, user) => {
+			const body = await describeProposal(repo, content, message, baseSha, user);
+			return updatePullRequest(repo, number, content, message, user, body);
+		},
+		mergePullRequest: (number) => mergePullRequest(repo, number),
+		closePullRequest: (number) => closePullRequest(repo, number),
+	};
+}
+
+type StoredCommit = CommitInfo & { content: string };
+
+// Git-like history on top of a key-value store: a head pointer plus one
+// record per commit, under keys prefixed with the config id. Starts from the
+// config bundled with the app. KV has no compare-and-swap, so two commits
+// racing on the same base can both land; the later one wins.
+function createVersionedConfigStore(kv: KeyValueStore, configId: string): ConfigStore {
+	const headKey = `${configId}:head`;
+	const commitKey = (sha: string) => `${configId}:commit:${sha}`;
+
+	async function readCommit(sha: string): Promise<StoredCommit> {
+		const commit = await kv.get<StoredCommit>(commitKey(sha));
+		if (!commit) {
+			throw new Error(`Commit ${sha} not found`);
+		}
+		return commit;
+	}
+
+	async function save(commit: StoredCommit): Promise<void> {
+		await kv.put(commitKey(commit.sha), commit);
+		await kv.put(headKey, commit.sha);
+	}
+
+	async function head(): Promise<StoredCommit> {
+		const sha = await kv.get<string>(headKey);
+		if (sha) return readCommit(sha);
+
+		const initial: StoredCommit = {
+			sha: crypto.randomUUID().replace(/-/g, ""),
+			url: null,
+			message: "Initial config",
+			author: "unknown",
+			date: new Date().toISOString(),
+			parentSha: null,
+			content: JSON.stringify(bundledConfig, null, "\t"),
+		};
+		await save(initial);
+		return initial;
+	}
+
+	function toCommitInfo({ content: _content, ...commit }: StoredCommit): CommitInfo {
+		return commit;
+	}
+
+	return {
+		async get(ref) {
+			const { content, sha } = ref ? await readCommit(ref) : await head();
+			return { content, sha };
+		},
+
+		async commit(content, message, baseSha, user) {
+			const parent = await head();
+			if (parent.sha !== baseSha) {
+				throw new ConfigConflictError();
+			}
+
+			const commit: StoredCommit = {
+				sha: crypto.randomUUID().replace(/-/g, ""),
+				url: null,
+				message: formatCommitMessage(message, user),
+				author: user,
+				date: new Date().toISOString(),
+				parentSha: parent.sha,
+				content,
+			};
+			await save(commit);
+			return { sha: commit.sha, url: null };
+		},
+
+		async getCommit(sha) {
+			return toCommitInfo(await readCommit(sha));
+		},
+
+		async listCommits(limit) {
+			const commits: CommitInfo[] = [];
+			let next: StoredCommit | null = await head();
+			while (next && commits.length < limit) {
+				commits.push(toCommitInfo(next));
+				next = next.parentSha ? await readCommit(next.parentSha) : null;
+			}
+			return commits;
+		},
+	};
+}
+
+export function createConfigStore(env: ConfigStoreBindings, configId: string): ConfigStore {
+	switch (env.CONFIG_STORE ?? "github") {
+		case "github":
+			if (!env.GITHUB_TOKEN) {
+				throw new Error("GITHUB_TOKEN is not configured");
+			}
+			return createGitHubConfigStore(
+				{
+					token: env.GITHUB_TOKEN,
+					owner: env.GITHUB_OWNER ?? DEFAULT_REPO.owner,
+					repo: env.GITHUB_REPO ?? DEFAULT_REPO.repo,
+					path: env.GITHUB_CONFIG_PATH ?? DEFAULT_REPO.path,
+					branch: env.GITHUB_BRANCH ?? DEFAULT_REPO.branch,
+				},
+				env.GITHUB_PULL_REQUESTS === "true",
+			);
+		case "kv":
+			if (!env.CONFIGS) {
+				throw new Error('CONFIG_STORE is "kv" but the CONFIGS namespace is not bound');
+			}
+			return createVersionedConfigStore(createKeyValueStore(env.CONFIGS, "configs"), configId);
+		case "memory":
+			// Lives as long as the isolate (wrangler dev, tests)
+			return createVersionedConfigStore(createKeyValueStore(undefined, "configs"), configId);
+		default:
+			throw new Error(`Unknown CONFIG_STORE "${env.CONFIG_STORE}"`);
+	}
+}
@@ -0,0 +1,109 @@
+import { z } from "@hono/zod-openapi";
+import type { Bindings } from "../types";
+import { webhookSchema } from "./webhooks";
+
+// One deployment can serve several families' configs. The worker's own
+// bindings describe the default config; every other config is an entry in
+// the TENANTS binding with its own accounts and storage location.
+
+export const DEFAULT_CONFIG_ID = "default";
+
+const configIdSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,39}$/);
+
+const configSettingsSchema = z.object({
+	users: z
+		.array(
+			z.object({
+				name: z.string().min(1),
+				password: z.string().min(1),
+				role: z.enum(["editor", "viewer"]),
+			}),
+		)
+		.optional(),
+	// Legacy shared PIN, used when there are no users
+	pin: z.string().min(1).optional(),
+	store: z.enum(["github", "kv", "memory"]),
+	// Required for the github store; token defaults to GITHUB_TOKEN
+	github: z
+		.object({
+			owner: z.string().min(1),
+			repo: z.string().min(1),
+			branch: z.string().min(1).optional(),
+			path: z.string().min(1).optional(),
+			token: z.string().min(1).optional(),
+			// Open a pull request for each edit
+			pullRequests: z.boolean().optional(),
+		})
+		.optional(),
+	// Rule severity overrides, see services/rules.ts
+	validationRules: z.record(z.string(), z.string()).optional(),
+	webhooks: z.array(webhookSchema).optional(),
+});
+
+export type ConfigSettings = z.infer<typeof configSettingsSchema>;
+
+export type TenantBindings = {
+	// JSON object mapping config ids to ConfigSettings
+	TENANTS?: string;
+};
+
+// Thrown when TENANTS is malformed
+export class TenantConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TenantConfigError";
+	}
+}
+
+function parseTenants(json: string | undefined): Record<string, ConfigSettings> {
+	if (!json) return {};
+
+	let tenants: unknown;
+	try {
+		tenants = JSON.parse(json);
+	} catch {
+		throw new TenantConfigError("TENANTS is not valid JSON");
+	}
+
+	const result = z.record(configIdSchema, configSettingsSchema).safeParse(tenants);
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		throw new TenantConfigError(`TENANTS.${issue.path.join(".")}: ${issue.message}`);
+	}
+	for (const [id, settings] of Object.entries(result.data)) {
+		if (id === DEFAULT_CONFIG_ID) {
+			throw new TenantConfigError(`TENANTS can't redefine the "${DEFAULT_CONFIG_ID}" config`);
+		}
+		if (settings.store === "github" && !settings.github) {
+			throw new TenantConfigError(`TENANTS.${id}: the github store needs github settings`);
+		}
+	}
+	return result.data;
+}
+
+// Bindings as seen by requests for the given config, or null if there is no
+// such config. Accounts, storage and webhooks never fall back to the default config's,
+// so a config without users can't be logged into.
+export function configBindings(env: Bindings, id: string): Bindings | null {
+	if (id === DEFAULT_CONFIG_ID) return env;
+
+	const settings = parseTenants(env.TENANTS)[id];
+	if (!settings) return null;
+
+	return {
+		...env,
+		USERS: settings.users && JSON.stringify(settings.users),
+		PIN: settings.pin,
+		CONFIG_STORE: settings.store,
+		GITHUB_TOKEN: settings.github?.token ?? env.GITHUB_TOKEN,
+		GITHUB_OWNER: settings.github?.owner,
+		GITHUB_REPO: settings.github?.repo,
+		GITHUB_BRANCH: settings.github?.branch,
+		GITHUB_CONFIG_PATH: settings.github?.path,
+		GITHUB_PULL_REQUESTS: settings.github?.pullRequests ? "true" : undefined,
+		VALIDATION_RULES: settings.validationRules
+			? JSON.stringify(settings.validationRules)
+			: env.VALIDATION_RULES,
+		WEBHOOKS: settings.webhooks && JSON.stringify(settings.webhooks),
+	};
+}
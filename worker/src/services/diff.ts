@@ -0,0 +1,124 @@
+import { z } from "@hono/zod-openapi";
+import { describeOffset } from "../../../src/offsets";
+import { describeRecurrence } from "../../../src/recurrence";
+import { milestoneSchema, withMilestoneIds, type ConfigJSON } from "./validator";
+
+type MilestoneJSON = ConfigJSON["milestones"][number];
+
+const fieldChangeSchema = z.object({
+	field: z.string(),
+	from: z.string().optional(),
+	to: z.string().optional(),
+});
+
+// Milestone-level diff between two configs
+export const configDiffSchema = z
+	.object({
+		fields: z
+			.array(fieldChangeSchema)
+			.openapi({ description: "Changes to startDate, dueDate or todayEmoji" }),
+		added: z.array(milestoneSchema),
+		removed: z.array(milestoneSchema),
+		changed: z.array(
+			z.object({
+				id: z.string(),
+				label: z.string(),
+				changes: z.array(fieldChangeSchema),
+			}),
+		),
+	})
+	.openapi("ConfigDiff");
+
+export type FieldChange = z.infer<typeof fieldChangeSchema>;
+export type ConfigDiff = z.infer<typeof configDiffSchema>;
+
+const TOP_LEVEL_FIELDS = ["startDate", "dueDate", "todayEmoji"] as const;
+const MILESTONE_FIELDS = [
+	"date",
+	"endDate",
+	"label",
+	"emoji",
+	"color",
+	"description",
+] as const;
+
+function diffFields<T extends object>(
+	before: T,
+	after: T,
+	fields: readonly (keyof T & string)[],
+): FieldChange[] {
+	const changes: FieldChange[] = [];
+	for (const field of fields) {
+		const from = before[field] as string | undefined;
+		const to = after[field] as string | undefined;
+		if (from !== to) {
+			changes.push({ field, from, to });
+		}
+	}
+	return changes;
+}
+
+// Fields that hold objects, compared as the summaries people see: "12+0
+// weeks" to "13+0 weeks", "Every week" to "Every 2 weeks"
+const SUMMARISED_FIELDS: Record<string, (m: MilestoneJSON) => string | undefined> = {
+	offset: (m) => m.offset && describeOffset(m.offset),
+	endOffset: (m) => m.endOffset && describeOffset(m.endOffset),
+	recurrence: (m) => m.recurrence && describeRecurrence(m.recurrence),
+};
+
+function diffSummaries(before: MilestoneJSON, after: MilestoneJSON): FieldChange[] {
+	return Object.entries(SUMMARISED_FIELDS).flatMap(([field, summarise]) => {
+		const from = summarise(before);
+		const to = summarise(after);
+		return from === to ? [] : [{ field, from, to }];
+	});
+}
+
+// Milestones are matched by id, so a renamed or moved milestone is a change
+// rather than a removal and an addition. Configs saved before milestones had
+// ids get the ids they would be saved with.
+export function diffConfigs(before: ConfigJSON, after: ConfigJSON): ConfigDiff {
+	const remaining = new Map(withMilestoneIds(before).milestones.map((m) => [m.id, m]));
+
+	const added: MilestoneJSON[] = [];
+	const changed: ConfigDiff["changed"] = [];
+	for (const m of withMilestoneIds(after).milestones) {
+		const previous = remaining.get(m.id);
+		if (!previous) {
+			added.push(m);
+			continue;
+		}
+		remaining.delete(m.id);
+		const changes = [...diffFields(previous, m, MILESTONE_FIELDS), ...diffSummaries(previous, m)];
+		if (changes.length > 0) {
+			changed.push({ id: m.id, label: m.label, changes });
+		}
+	}
+
+	return {
+		fields: diffFields(before, after, TOP_LEVEL_FIELDS),
+		added,
+		removed: [...remaining.values()],
+		changed,
+	};
+}
+
+function formatRange(m: MilestoneJSON): string {
+	const start = m.offset ? describeOffset(m.offset) : m.date;
+	const end = m.endOffset ? describeOffset(m.endOffset) : m.endDate;
+	return end ? `${start} → ${end}` : `${start}`;
+}
+
+function formatChange({ field, from, to }: FieldChange): string {
+	return `${field}: ${from || "(none)"} → ${to || "(none)"}`;
+}
+
+// One line per change, as the editor's diff view shows them
+export function describeDiff(diff: ConfigDiff): string[] {
+	return [
+		...diff.fields.map(formatChange),
+		...diff.added.map((m) => `+ ${m.emoji} ${m.label} (${formatRange(m)})`),
+		...diff.removed.map((m) => `− ${m.emoji} ${m.label} (${formatRange(m)})`),
+		...diff.changed.map((m) => `~ ${m.label}: ${m.changes.map(formatChange).join(", ")}`),
+	];
+}
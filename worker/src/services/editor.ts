@@ -0,0 +1,142 @@
+import { SYSTEM_PROMPT } from "../prompts/system";
+import { EDIT_TOOLS } from "../prompts/tools";
+import {
+	applyOperations,
+	describeOperation,
+	editOperationSchema,
+	OperationError,
+	type EditOperation,
+} from "./operations";
+import { readConfig, type ConfigIssue } from "./validator";
+import type { LlmMessage, LlmProvider, LlmRequest, LlmToolCall } from "./llm";
+
+type EditResult = {
+	response: string;
+	newConfig: string | null;
+	operations: EditOperation[];
+};
+
+// A previous turn of the conversation, as sent by the client
+export type ChatTurn = {
+	role: "user" | "assistant";
+	content: string;
+};
+
+// Turn the model's tool calls into validated edit operations
+function parseToolCalls(toolCalls: LlmToolCall[]): EditOperation[] {
+	return toolCalls.map((call) => {
+		let args: unknown;
+		try {
+			args =
+				typeof call.arguments === "string"
+					? JSON.parse(call.arguments)
+					: call.arguments;
+		} catch {
+			throw new OperationError(`Invalid arguments for ${call.name}`);
+		}
+
+		const result = editOperationSchema.safeParse({
+			...(args as object),
+			type: call.name,
+		});
+		if (!result.success) {
+			const issue = result.error.issues[0];
+			throw new OperationError(
+				`Invalid ${call.name} call: ${issue.path.join(".")} ${issue.message}`,
+			);
+		}
+		return result.data;
+	});
+}
+
+// An edit the model made earlier in this request that was rejected
+export type EditAttempt = {
+	operations: EditOperation[];
+	issues: ConfigIssue[];
+};
+
+type EditOptions = {
+	history?: ChatTurn[];
+	// Rejected attempts, oldest first, for the model to correct
+	attempts?: EditAttempt[];
+	// Receives the model's explanation as it is generated
+	onText?: (delta: string) => void;
+};
+
+// Show the model what it tried and why it was rejected
+function attemptMessages({ operations, issues }: EditAttempt): LlmMessage[] {
+	return [
+		{
+			role: "assistant",
+			content: operations.length
+				? operations.map(describeOperation).join("\n")
+				: "(edit could not be applied)",
+		},
+		{
+			role: "user",
+			content: `That edit was rejected:
+${issues.map((issue) => `- ${issue.message}`).join("\n")}
+
+Call the tools again with a corrected edit of the config above. Earlier attempts were discarded, so include every change the request needs.`,
+		},
+	];
+}
+
+export async function editConfig(
+	llm: LlmProvider,
+	currentConfig: string,
+	userMessage: string,
+	{ history = [], attempts = [], onText }: EditOptions = {},
+): Promise<EditResult> {
+	const request: LlmRequest = {
+		messages: [
+			{
+				role: "system",
+				content: SYSTEM_PROMPT,
+			},
+			// Replay prior turns so follow-ups like "yes, do it" have context.
+			// Only the latest message carries the config, so the model always
+			// works from the current version rather than a stale one.
+			...history.map((turn) => ({ role: turn.role, content: turn.content })),
+			{
+				role: "user",
+				content: `Current config.json:
+\`\`\`json
+${currentConfig}
+\`\`\`
+
+User request: ${userMessage}`,
+			},
+			...attempts.flatMap(attemptMessages),
+		],
+		tools: EDIT_TOOLS,
+	};
+	const completion = onText
+		? await llm.stream(request, onText)
+		: await llm.complete(request);
+
+	const text = completion.content;
+	const operations = parseToolCalls(completion.toolCalls);
+
+	// No tool calls - just return the response
+	if (operations.length === 0) {
+		return {
+			response: text || "No response generated",
+			newConfig: null,
+			operations,
+		};
+	}
+
+	// Apply the operations to the parsed config rather than trusting the
+	// model to reproduce the whole file
+	const newConfig = applyOperations(
+		readConfig(currentConfig),
+		operations,
+	);
+
+	return {
+		response: text.trim() || operations.map(describeOperation).join("\n"),
+		newConfig: JSON.stringify(newConfig, null, "\t"),
+		operations,
+	};
+}
@@ -0,0 +1,137 @@
+import { resolveMilestone } from "../../../src/offsets";
+import type { Bindings } from "../types";
+import type { User } from "./auth";
+import type { ConfigStore } from "./configStore";
+import { diffConfigs, type ConfigDiff } from "./diff";
+import { ConfigConflictError, type PullRequest } from "./github";
+import { applyOperations, describeOperation, OperationError, type EditOperation } from "./operations";
+import { parseRuleSeverities } from "./rules";
+import { readConfig, validateConfig, withMilestoneIds, type ConfigIssue, type ConfigJSON } from "./validator";
+
+// Direct edits from the REST routes. They skip the model but share its
+// operations, validation and commit message format, so the history reads
+// the same whichever way a change was made.
+
+type MilestoneJSON = ConfigJSON["milestones"][number];
+
+// Thrown when an edit would leave the config invalid
+export class ConfigValidationError extends Error {
+	constructor(readonly issues: ConfigIssue[]) {
+		super(
+			issues
+				.filter((issue) => issue.severity === "error")
+				.map((issue) => issue.message)
+				.join("; "),
+		);
+		this.name = "ConfigValidationError";
+	}
+}
+
+export type EditResult = {
+	config: ConfigJSON;
+	commitSha: string;
+	commitUrl?: string;
+	pullRequest?: PullRequest;
+	warnings?: ConfigIssue[];
+};
+
+// The milestone with an id in a config read with readConfig. Throws
+// OperationError if there is none.
+export function milestoneById(config: ConfigJSON, id: string): MilestoneJSON {
+	const milestone = config.milestones.find((m) => m.id === id);
+	if (!milestone) {
+		throw new OperationError(`No milestone with id "${id}"`);
+	}
+	return milestone;
+}
+
+// Validate a new version of the config and commit it on top of baseSha, or
+// in place of the edit in an open pull request in pull request mode
+async function save(
+	env: Bindings,
+	store: ConfigStore,
+	config: ConfigJSON,
+	message: string,
+	baseSha: string,
+	user: User,
+	pullRequest?: number,
+): Promise<EditResult> {
+	const newContent = JSON.stringify(config, null, "\t");
+	const validation = validateConfig(newContent, parseRuleSeverities(env.VALIDATION_RULES));
+	if (!validation.valid) {
+		throw new ConfigValidationError(validation.issues);
+	}
+
+	const commit =
+		pullRequest !== undefined && store.updatePullRequest
+			? await store.updatePullRequest(pullRequest, newContent, message, baseSha, user.name)
+			: await store.commit(newContent, message, baseSha, user.name);
+	return {
+		config,
+		commitSha: commit.sha,
+		commitUrl: commit.url ?? undefined,
+		pullRequest: commit.pullRequest,
+		warnings: validation.issues.length ? validation.issues : undefined,
+	};
+}
+
+// Turn the latest config into operations with `edit`, then validate and
+// commit the result. Unlike chat edits these aren't retried on a conflict,
+// so the user sees the newer config before changing it again.
+export async function commitEdit(
+	env: Bindings,
+	store: ConfigStore,
+	user: User,
+	edit: (config: ConfigJSON) => EditOperation[],
+): Promise<EditResult> {
+	const current = await store.get();
+	const currentConfig = readConfig(current.content);
+	const operations = edit(currentConfig);
+	const config = applyOperations(currentConfig, operations);
+
+	return save(env, store, config, operations.map(describeOperation).join("; "), current.sha, user);
+}
+
+function describeMilestoneChanges({ added, changed, removed }: ConfigDiff): string {
+	const changes = [
+		...added.map((m) => `add ${m.label}`),
+		...changed.map((m) => `update ${m.label}`),
+		...removed.map((m) => `remove ${m.label}`),
+	];
+	return changes.length ? `Edit milestones: ${changes.join(", ")}` : "Reorder milestones";
+}
+
+// Replace every milestone at once, as edited in a form opened at baseSha.
+// Milestones without an id are new and get one. Issues point at positions
+// in the given list; the committed list is sorted by date. Throws
+// ConfigConflictError if the config changed since baseSha. In pull request
+// mode, passing the pull request an earlier save opened updates it rather
+// than opening another with the same changes.
+export async function replaceMilestones(
+	env: Bindings,
+	store: ConfigStore,
+	user: User,
+	milestones: MilestoneJSON[],
+	baseSha: string,
+	pullRequest?: number,
+): Promise<EditResult> {
+	const current = await store.get();
+	if (current.sha !== baseSha) {
+		throw new ConfigConflictError();
+	}
+
+	const before = readConfig(current.content);
+	const edited = { ...before, milestones };
+	const validation = validateConfig(JSON.stringify(edited), parseRuleSeverities(env.VALIDATION_RULES));
+	if (!validation.valid) {
+		throw new ConfigValidationError(validation.issues);
+	}
+
+	const dateOf = (m: MilestoneJSON) => resolveMilestone(edited, m).date;
+	const config = {
+		...edited,
+		milestones: withMilestoneIds(edited).milestones.sort((a, b) => dateOf(a).localeCompare(dateOf(b))),
+	};
+	const message = describeMilestoneChanges(diffConfigs(before, config));
+	return save(env, store, config, message, baseSha, user, pullRequest);
+}
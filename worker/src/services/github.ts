@@ -1,7 +1,26 @@
-const REPO_OWNER = "mfbx9da4";
-const REPO_NAME = "meanwhile";
-const CONFIG_PATH = "src/config.json";
-const BRANCH = "main";
+import { editedBy, formatCommitMessage } from "./commitMessage";
+
+// Where the config lives and how to reach it
+export type GitHubRepo = {
+	token: string;
+	owner: string;
+	repo: string;
+	// Path of the config file within the repo
+	path: string;
+	branch: string;
+};
+
+function apiUrl({ owner, repo }: GitHubRepo, endpoint: string): string {
+	return `https://api.github.com/repos/${owner}/${repo}/${endpoint}`;
+}
+
+function headers({ token }: GitHubRepo): Record<string, string> {
+	return {
+		Authorization: `Bearer ${token}`,
+		Accept: "application/vnd.github.v3+json",
+		"User-Agent": "meanwhile-config-editor",
+	};
+}
 
 type GitHubFileResponse = {
 	sha: string;
@@ -20,16 +39,88 @@ function base64ToUtf8(base64: string): string {
 	return new TextDecoder().decode(bytes);
 }
 
-export async function getConfig(token: string): Promise<string> {
-	const url = `https://api.github.com/repos/${REPO_OWNER}/${REPO_NAME}/contents/${CONFIG_PATH}?ref=${BRANCH}`;
+type GitHubCommitResponse = {
+	sha: string;
+	html_url: string;
+	commit: {
+		message: string;
+		author: { name: string; date: string } | null;
+	};
+	parents: { sha: string }[];
+};
+
+export type CommitInfo = {
+	sha: string;
+	// Null for stores without a web UI
+	url: string | null;
+	message: string;
+	author: string;
+	date: string;
+	parentSha: string | null;
+};
 
-	const response = await fetch(url, {
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: "application/vnd.github.v3+json",
-			"User-Agent": "meanwhile-config-editor",
-		},
-	});
+function toCommitInfo(data: GitHubCommitResponse): CommitInfo {
+	return {
+		sha: data.sha,
+		url: data.html_url,
+		message: data.commit.message,
+		author: editedBy(data.commit.message) ?? data.commit.author?.name ?? "unknown",
+		date: data.commit.author?.date ?? "",
+		parentSha: data.parents[0]?.sha ?? null,
+	};
+}
+
+// Config contents plus the version (blob SHA for GitHub) they were read at
+export type ConfigFile = {
+	content: string;
+	sha: string;
+};
+
+export type PullRequest = {
+	number: number;
+	url: string;
+};
+
+// The commit a config change was saved as
+export type CommitRef = {
+	sha: string;
+	url: string | null;
+	// Set when the commit is on its own branch, waiting to be merged
+	pullRequest?: PullRequest;
+};
+
+// Thrown when the config changed since it was read
+export class ConfigConflictError extends Error {
+	constructor() {
+		super("Config was changed by someone else");
+		this.name = "ConfigConflictError";
+	}
+}
+
+// Thrown when a pull request can't be updated, merged or closed. status is
+// 404 for pull requests the config editor didn't open, 409 for ones that are
+// no longer open or can't be merged cleanly.
+export class PullRequestError extends Error {
+	constructor(
+		message: string,
+		readonly status: 404 | 409,
+	) {
+		super(message);
+		this.name = "PullRequestError";
+	}
+}
+
+// Branches for pull requests start with this, so only the config editor's
+// own pull requests can be merged or closed through it
+const BRANCH_PREFIX = "config-editor/";
+
+// Longest pull request title before it's cut short
+const MAX_TITLE_LENGTH = 72;
+
+export async function getConfig(repo: GitHubRepo, ref = repo.branch): Promise<ConfigFile> {
+	const url = apiUrl(repo, `contents/${repo.path}?ref=${ref}`);
+
+	const response = await fetch(url, { headers: headers(repo) });
 
 	if (!response.ok) {
 		throw new Error(`Failed to fetch config: ${response.statusText}`);
@@ -39,55 +130,254 @@ export async function getConfig(token: string): Promise<string> {
 
 	// GitHub returns base64 encoded content
 	const content = base64ToUtf8(data.content.replace(/\n/g, ""));
-	return content;
+	return { content, sha: data.sha };
 }
 
+// Commit new content on top of the version read with getConfig, on behalf
+// of the named user. Throws ConfigConflictError if the file has changed
+// since then.
 export async function commitConfig(
-	token: string,
+	repo: GitHubRepo,
 	newContent: string,
 	commitMessage: string,
-): Promise<string> {
-	// First get the current file to get its SHA
-	const getUrl = `https://api.github.com/repos/${REPO_OWNER}/${REPO_NAME}/contents/${CONFIG_PATH}?ref=${BRANCH}`;
-
-	const getResponse = await fetch(getUrl, {
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: "application/vnd.github.v3+json",
-			"User-Agent": "meanwhile-config-editor",
-		},
+	baseSha: string,
+	user: string,
+): Promise<CommitRef> {
+	// Update the file
+	const updateResponse = await fetch(apiUrl(repo, `contents/${repo.path}`), {
+		method: "PUT",
+		headers: { ...headers(repo), "Content-Type": "application/json" },
+		body: JSON.stringify({
+			message: formatCommitMessage(commitMessage, user),
+			content: utf8ToBase64(newContent),
+			sha: baseSha,
+			branch: repo.branch,
+		}),
 	});
 
-	if (!getResponse.ok) {
-		throw new Error(`Failed to get current config: ${getResponse.statusText}`);
+	// GitHub rejects the update when the SHA no longer matches the file
+	if (updateResponse.status === 409) {
+		throw new ConfigConflictError();
 	}
 
-	const currentFile = (await getResponse.json()) as GitHubFileResponse;
+	if (!updateResponse.ok) {
+		const error = await updateResponse.text();
+		throw new Error(`Failed to commit config: ${updateResponse.statusText} - ${error}`);
+	}
 
-	// Update the file
-	const updateUrl = `https://api.github.com/repos/${REPO_OWNER}/${REPO_NAME}/contents/${CONFIG_PATH}`;
+	const result = (await updateResponse.json()) as { commit: { sha: string; html_url: string } };
+	return { sha: result.commit.sha, url: result.commit.html_url };
+}
+
+export async function getCommit(repo: GitHubRepo, sha: string): Promise<CommitInfo> {
+	const response = await fetch(apiUrl(repo, `commits/${sha}`), { headers: headers(repo) });
+
+	if (!response.ok) {
+		throw new Error(`Failed to fetch commit: ${response.statusText}`);
+	}
+
+	return toCommitInfo((await response.json()) as GitHubCommitResponse);
+}
+
+// Most recent commits touching the config file, newest first
+export async function listConfigCommits(
+	repo: GitHubRepo,
+	limit: number,
+): Promise<CommitInfo[]> {
+	const url = apiUrl(repo, `commits?path=${repo.path}&sha=${repo.branch}&per_page=${limit}`);
+
+	const response = await fetch(url, { headers: headers(repo) });
+
+	if (!response.ok) {
+		throw new Error(`Failed to list commits: ${response.statusText}`);
+	}
+
+	const data = (await response.json()) as GitHubCommitResponse[];
+	return data.map(toCommitInfo);
+}
+
+// First line of the commit message, cut short to fit
+function pullRequestTitle(commitMessage: string, user: string): string {
+	const title = formatCommitMessage(commitMessage, user).split("\n")[0];
+	return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+// Commit new content to a new branch off the configured one and open a pull
+// request for it. Throws ConfigConflictError, leaving nothing behind, if the
+// file has changed since baseSha.
+export async function openPullRequest(
+	repo: GitHubRepo,
+	newContent: string,
+	commitMessage: string,
+	baseSha: string,
+	user: string,
+	body: string,
+): Promise<CommitRef> {
+	const refResponse = await fetch(apiUrl(repo, `git/ref/heads/${repo.branch}`), {
+		headers: headers(repo),
+	});
+	if (!refResponse.ok) {
+		throw new Error(`Failed to read branch ${repo.branch}: ${refResponse.statusText}`);
+	}
+	const head = (await refResponse.json()) as { object: { sha: string } };
+
+	const branch = `${BRANCH_PREFIX}${crypto.randomUUID().slice(0, 8)}`;
+	const createResponse = await fetch(apiUrl(repo, "git/refs"), {
+		method: "POST",
+		headers: { ...headers(repo), "Content-Type": "application/json" },
+		body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: head.object.sha }),
+	});
+	if (!createResponse.ok) {
+		const error = await createResponse.text();
+		throw new Error(`Failed to create branch: ${createResponse.statusText} - ${error}`);
+	}
+
+	let commit: CommitRef;
+	try {
+		commit = await commitConfig({ ...repo, branch }, newContent, commitMessage, baseSha, user);
+	} catch (error) {
+		await deleteBranch(repo, branch);
+		throw error;
+	}
+
+	const pullResponse = await fetch(apiUrl(repo, "pulls"), {
+		method: "POST",
+		headers: { ...headers(repo), "Content-Type": "application/json" },
+		body: JSON.stringify({
+			title: pullRequestTitle(commitMessage, user),
+			head: branch,
+			base: repo.branch,
+			body,
+		}),
+	});
+	if (!pullResponse.ok) {
+		const error = await pullResponse.text();
+		throw new Error(`Failed to open pull request: ${pullResponse.statusText} - ${error}`);
+	}
+	const pull = (await pullResponse.json()) as { number: number; html_url: string };
+
+	return { ...commit, pullRequest: { number: pull.number, url: pull.html_url } };
+}
+
+type GitHubPullResponse = {
+	html_url: string;
+	state: "open" | "closed";
+	merged: boolean;
+	head: { ref: string; sha: string };
+	base: { ref: string };
+};
 
-	const updateResponse = await fetch(updateUrl, {
+// An open pull request made by openPullRequest
+async function getOwnPullRequest(repo: GitHubRepo, number: number): Promise<GitHubPullResponse> {
+	const response = await fetch(apiUrl(repo, `pulls/${number}`), { headers: headers(repo) });
+	if (response.status === 404) {
+		throw new PullRequestError(`Pull request #${number} not found`, 404);
+	}
+	if (!response.ok) {
+		throw new Error(`Failed to fetch pull request: ${response.statusText}`);
+	}
+
+	const pull = (await response.json()) as GitHubPullResponse;
+	if (!pull.head.ref.startsWith(BRANCH_PREFIX) || pull.base.ref !== repo.branch) {
+		throw new PullRequestError(`Pull request #${number} wasn't opened by the config editor`, 404);
+	}
+	if (pull.state !== "open") {
+		throw new PullRequestError(
+			`Pull request #${number} is already ${pull.merged ? "merged" : "closed"}`,
+			409,
+		);
+	}
+	return pull;
+}
+
+async function deleteBranch(repo: GitHubRepo, branch: string): Promise<void> {
+	// Best effort; a leftover branch does no harm
+	await fetch(apiUrl(repo, `git/refs/heads/${branch}`), {
+		method: "DELETE",
+		headers: headers(repo),
+	});
+}
+
+// Replace the edit in an open pull request made by openPullRequest with
+// newContent, committed on top of its branch, and retitle it to match. The
+// caller checks the configured branch hasn't moved since the edit was based
+// on it.
+export async function updatePullRequest(
+	repo: GitHubRepo,
+	number: number,
+	newContent: string,
+	commitMessage: string,
+	user: string,
+	body: string,
+): Promise<CommitRef> {
+	const pull = await getOwnPullRequest(repo, number);
+	const branch = { ...repo, branch: pull.head.ref };
+	const { sha } = await getConfig(branch);
+	const commit = await commitConfig(branch, newContent, commitMessage, sha, user);
+
+	const response = await fetch(apiUrl(repo, `pulls/${number}`), {
+		method: "PATCH",
+		headers: { ...headers(repo), "Content-Type": "application/json" },
+		body: JSON.stringify({ title: pullRequestTitle(commitMessage, user), body }),
+	});
+	if (!response.ok) {
+		const error = await response.text();
+		throw new Error(`Failed to update pull request: ${response.statusText} - ${error}`);
+	}
+
+	return { ...commit, pullRequest: { number, url: pull.html_url } };
+}
+
+// Squash-merge a pull request made by openPullRequest, keeping its commit
+// message so the history reads as if the edit was committed directly
+export async function mergePullRequest(repo: GitHubRepo, number: number): Promise<CommitRef> {
+	const pull = await getOwnPullRequest(repo, number);
+	const { message } = await getCommit(repo, pull.head.sha);
+	const [title, ...body] = message.split("\n");
+
+	const response = await fetch(apiUrl(repo, `pulls/${number}/merge`), {
 		method: "PUT",
-		headers: {
-			Authorization: `Bearer ${token}`,
-			Accept: "application/vnd.github.v3+json",
-			"User-Agent": "meanwhile-config-editor",
-			"Content-Type": "application/json",
-		},
+		headers: { ...headers(repo), "Content-Type": "application/json" },
 		body: JSON.stringify({
-			message: `[Config Editor] ${commitMessage}`,
-			content: utf8ToBase64(newContent),
-			sha: currentFile.sha,
-			branch: BRANCH,
+			merge_method: "squash",
+			sha: pull.head.sha,
+			commit_title: title,
+			commit_message: body.join("\n").trim(),
 		}),
 	});
+	// 405: conflicts with the base branch; 409: the branch moved
+	if (response.status === 405 || response.status === 409) {
+		throw new PullRequestError(
+			`Pull request #${number} can't be merged because the config changed since it was opened`,
+			409,
+		);
+	}
+	if (!response.ok) {
+		const error = await response.text();
+		throw new Error(`Failed to merge pull request: ${response.statusText} - ${error}`);
+	}
 
-	if (!updateResponse.ok) {
-		const error = await updateResponse.text();
-		throw new Error(`Failed to commit config: ${updateResponse.statusText} - ${error}`);
+	const result = (await response.json()) as { sha: string };
+	await deleteBranch(repo, pull.head.ref);
+	return {
+		sha: result.sha,
+		url: `https://github.com/${repo.owner}/${repo.repo}/commit/${result.sha}`,
+	};
+}
+
+// Close a pull request made by openPullRequest without merging it
+export async function closePullRequest(repo: GitHubRepo, number: number): Promise<void> {
+	const pull = await getOwnPullRequest(repo, number);
+
+	const response = await fetch(apiUrl(repo, `pulls/${number}`), {
+		method: "PATCH",
+		headers: { ...headers(repo), "Content-Type": "application/json" },
+		body: JSON.stringify({ state: "closed" }),
+	});
+	if (!response.ok) {
+		const error = await response.text();
+		throw new Error(`Failed to close pull request: ${response.statusText} - ${error}`);
 	}
 
-	const result = (await updateResponse.json()) as { commit: { html_url: string } };
-	return result.commit.html_url;
+	await deleteBranch(repo, pull.head.ref);
 }
@@ -0,0 +1,65 @@
+import { diffConfigs, type ConfigDiff } from "./diff";
+import type { ConfigStore } from "./configStore";
+import type { CommitInfo } from "./github";
+import { CONFIG_SCHEMA_VERSION, readConfig, type ConfigJSON } from "./validator";
+
+export type HistoryEntry = Omit<CommitInfo, "parentSha"> & {
+	// Null when either version can't be parsed (e.g. a broken manual edit)
+	diff: ConfigDiff | null;
+};
+
+const EMPTY_CONFIG: ConfigJSON = {
+	schemaVersion: CONFIG_SCHEMA_VERSION,
+	startDate: "",
+	dueDate: "",
+	todayEmoji: "",
+	milestones: [],
+};
+
+function parseConfig(content: string | null): ConfigJSON | null {
+	if (content === null) return null;
+	try {
+		return readConfig(content);
+	} catch {
+		return null;
+	}
+}
+
+// Config at a ref, or null if the file didn't exist yet
+async function getConfigOrNull(store: ConfigStore, ref: string): Promise<string | null> {
+	try {
+		return (await store.get(ref)).content;
+	} catch {
+		return null;
+	}
+}
+
+export async function getHistory(
+	store: ConfigStore,
+	limit: number,
+): Promise<HistoryEntry[]> {
+	const commits = await store.listCommits(limit);
+
+	// Commits are filtered to the config file, so each commit's previous
+	// version is the next (older) commit's version. Only the oldest needs
+	// its parent fetched separately.
+	const versions = await Promise.all(
+		commits.map((commit) => getConfigOrNull(store, commit.sha)),
+	);
+	const oldest = commits[commits.length - 1];
+	const oldestParent = oldest?.parentSha
+		? await getConfigOrNull(store, oldest.parentSha)
+		: null;
+
+	return commits.map(({ parentSha: _parentSha, ...commit }, i) => {
+		const after = parseConfig(versions[i]);
+		const beforeContent = i + 1 < versions.length ? versions[i + 1] : oldestParent;
+		// A missing previous version means the file was created here
+		const before = beforeContent === null ? EMPTY_CONFIG : parseConfig(beforeContent);
+
+		return {
+			...commit,
+			diff: after && before ? diffConfigs(before, after) : null,
+		};
+	});
+}
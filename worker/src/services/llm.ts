@@ -0,0 +1,86 @@
+import { createFakeProvider } from "./providers/fake";
+import { createMistralProvider } from "./providers/mistral";
+import { createOpenAiProvider } from "./providers/openai";
+
+export type LlmMessage = {
+	role: "system" | "user" | "assistant";
+	content: string;
+};
+
+// JSON Schema function definition offered to the model
+export type LlmTool = {
+	type: "function";
+	function: {
+		name: string;
+		description?: string;
+		parameters: Record<string, unknown>;
+	};
+};
+
+export type LlmToolCall = {
+	name: string;
+	// Providers return arguments either as a JSON string or already parsed
+	arguments: Record<string, unknown> | string;
+};
+
+export type LlmCompletion = {
+	content: string;
+	toolCalls: LlmToolCall[];
+};
+
+export type LlmRequest = {
+	messages: LlmMessage[];
+	tools?: LlmTool[];
+};
+
+export type LlmProvider = {
+	complete(request: LlmRequest): Promise<LlmCompletion>;
+	// Same as complete, but reports the text content as it is generated
+	stream(request: LlmRequest, onText: (delta: string) => void): Promise<LlmCompletion>;
+};
+
+export type LlmBindings = {
+	// "mistral" (default), "openai" or "fake"
+	LLM_PROVIDER?: string;
+	// Overrides the provider's default model
+	LLM_MODEL?: string;
+	MISTRAL_API_KEY?: string;
+	// Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+	OPENAI_BASE_URL?: string;
+	OPENAI_API_KEY?: string;
+	// JSON array of scripted completions for the fake provider
+	FAKE_LLM_SCRIPT?: string;
+};
+
+export function createLlmProvider(env: LlmBindings): LlmProvider {
+	const provider = env.LLM_PROVIDER || "mistral";
+
+	switch (provider) {
+		case "mistral":
+			if (!env.MISTRAL_API_KEY) {
+				throw new Error("MISTRAL_API_KEY is required for the mistral provider");
+			}
+			return createMistralProvider(
+				env.MISTRAL_API_KEY,
+				env.LLM_MODEL || "mistral-large-latest",
+			);
+		case "openai":
+			if (!env.OPENAI_BASE_URL) {
+				throw new Error("OPENAI_BASE_URL is required for the openai provider");
+			}
+			if (!env.LLM_MODEL) {
+				throw new Error("LLM_MODEL is required for the openai provider");
+			}
+			return createOpenAiProvider({
+				baseUrl: env.OPENAI_BASE_URL,
+				apiKey: env.OPENAI_API_KEY,
+				model: env.LLM_MODEL,
+			});
+		case "fake":
+			return createFakeProvider(
+				JSON.parse(env.FAKE_LLM_SCRIPT || "[]") as Partial<LlmCompletion>[],
+			);
+		default:
+			throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+	}
+}
@@ -0,0 +1,188 @@
+import { z } from "@hono/zod-openapi";
+import { describeOffset, resolveMilestone } from "../../../src/offsets";
+import {
+	isoDateSchema,
+	milestoneIdSchema,
+	milestoneSchema,
+	pregnancyOffsetSchema,
+	recurrenceSchema,
+	withMilestoneIds,
+	type ConfigJSON,
+} from "./validator";
+
+type MilestoneJSON = ConfigJSON["milestones"][number];
+
+// Identifies an existing milestone, by id or else by label. The date
+// disambiguates repeated labels.
+const milestoneMatchSchema = z
+	.object({
+		id: milestoneIdSchema.optional(),
+		label: z.string().min(1).optional(),
+		date: isoDateSchema.optional(),
+	})
+	.refine((match) => match.id || match.label, "Needs an id or a label");
+
+// Fields to change on a milestone; null removes an optional field. Setting
+// a date replaces an offset and the other way round, likewise for the end.
+const milestoneChangesSchema = z.object({
+	date: isoDateSchema.optional(),
+	offset: pregnancyOffsetSchema.nullable().optional(),
+	endDate: isoDateSchema.nullable().optional(),
+	endOffset: pregnancyOffsetSchema.nullable().optional(),
+	label: z.string().min(1).optional(),
+	emoji: z.string().min(1).optional(),
+	color: z.string().nullable().optional(),
+	description: z.string().nullable().optional(),
+	// Replaces the whole recurrence
+	recurrence: recurrenceSchema.nullable().optional(),
+});
+
+// A single structured edit, as emitted by the model via tool calling
+export const editOperationSchema = z
+	.discriminatedUnion("type", [
+		z.object({ type: z.literal("add_milestone"), milestone: milestoneSchema }),
+		z.object({
+			type: z.literal("update_milestone"),
+			match: milestoneMatchSchema,
+			changes: milestoneChangesSchema,
+		}),
+		z.object({ type: z.literal("remove_milestone"), match: milestoneMatchSchema }),
+		z.object({ type: z.literal("set_start_date"), date: isoDateSchema }),
+		z.object({ type: z.literal("set_due_date"), date: isoDateSchema }),
+		z.object({ type: z.literal("set_today_emoji"), emoji: z.string().min(1) }),
+	])
+	.openapi("EditOperation");
+
+export type EditOperation = z.infer<typeof editOperationSchema>;
+
+export class OperationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "OperationError";
+	}
+}
+
+function findMilestone(
+	milestones: MilestoneJSON[],
+	match: z.infer<typeof milestoneMatchSchema>,
+): number {
+	if (match.id) {
+		const index = milestones.findIndex((m) => m.id === match.id);
+		if (index === -1) {
+			throw new OperationError(`No milestone with id "${match.id}"`);
+		}
+		return index;
+	}
+
+	const index = milestones.findIndex(
+		(m) => m.label === match.label && (!match.date || m.date === match.date),
+	);
+	if (index === -1) {
+		const where = match.date ? ` on ${match.date}` : "";
+		throw new OperationError(`No milestone named "${match.label}"${where}`);
+	}
+	return index;
+}
+
+// Day a milestone falls on, resolving its offset against the config's dates
+function dateOf(config: ConfigJSON, milestone: MilestoneJSON): string {
+	return resolveMilestone(config, milestone).date;
+}
+
+// Keep milestones in date order, placing new ones after any on the same day
+function insertByDate(
+	config: ConfigJSON,
+	milestones: MilestoneJSON[],
+	milestone: MilestoneJSON,
+): MilestoneJSON[] {
+	const date = dateOf(config, milestone);
+	const index = milestones.findIndex((m) => dateOf(config, m) > date);
+	if (index === -1) return [...milestones, milestone];
+	return [...milestones.slice(0, index), milestone, ...milestones.slice(index)];
+}
+
+// The other way of giving each of these fields, which setting it replaces
+const ALTERNATIVES: Record<string, string> = {
+	date: "offset",
+	offset: "date",
+	endDate: "endOffset",
+	endOffset: "endDate",
+};
+
+function applyChanges(
+	milestone: MilestoneJSON,
+	changes: z.infer<typeof milestoneChangesSchema>,
+): MilestoneJSON {
+	const updated: Record<string, unknown> = { ...milestone };
+	for (const [field, value] of Object.entries(changes)) {
+		if (value === undefined) continue;
+		if (value === null) {
+			delete updated[field];
+		} else {
+			updated[field] = value;
+			if (field in ALTERNATIVES) delete updated[ALTERNATIVES[field]];
+		}
+	}
+	return updated as MilestoneJSON;
+}
+
+function applyOperation(config: ConfigJSON, op: EditOperation): ConfigJSON {
+	switch (op.type) {
+		case "add_milestone":
+			return { ...config, milestones: insertByDate(config, config.milestones, op.milestone) };
+		case "update_milestone": {
+			const index = findMilestone(config.milestones, op.match);
+			const updated = applyChanges(config.milestones[index], op.changes);
+			const rest = config.milestones.filter((_, i) => i !== index);
+			// Re-sort only when the date moved
+			const milestones =
+				dateOf(config, updated) === dateOf(config, config.milestones[index])
+					? config.milestones.map((m, i) => (i === index ? updated : m))
+					: insertByDate(config, rest, updated);
+			return { ...config, milestones };
+		}
+		case "remove_milestone": {
+			const index = findMilestone(config.milestones, op.match);
+			return {
+				...config,
+				milestones: config.milestones.filter((_, i) => i !== index),
+			};
+		}
+		case "set_start_date":
+			return { ...config, startDate: op.date };
+		case "set_due_date":
+			return { ...config, dueDate: op.date };
+		case "set_today_emoji":
+			return { ...config, todayEmoji: op.emoji };
+	}
+}
+
+// Apply operations in order, giving new milestones (and any saved before
+// milestones had ids) an id. Throws OperationError if one can't be applied.
+export function applyOperations(
+	config: ConfigJSON,
+	operations: EditOperation[],
+): ConfigJSON {
+	return withMilestoneIds(operations.reduce(applyOperation, withMilestoneIds(config)));
+}
+
+// Human-readable summary of an operation, used when the model gives no text
+export function describeOperation(op: EditOperation): string {
+	switch (op.type) {
+		case "add_milestone": {
+			const { emoji, label, date, offset } = op.milestone;
+			const when = offset ? `at ${describeOffset(offset)}` : `on ${date}`;
+			return `Added ${emoji} ${label} ${when}`;
+		}
+		case "update_milestone":
+			return `Updated ${op.match.label ?? op.match.id} (${Object.keys(op.changes).join(", ")})`;
+		case "remove_milestone":
+			return `Removed ${op.match.label ?? op.match.id}`;
+		case "set_start_date":
+			return `Set start date to ${op.date}`;
+		case "set_due_date":
+			return `Set due date to ${op.date}`;
+		case "set_today_emoji":
+			return `Set today emoji to ${op.emoji}`;
+	}
+}
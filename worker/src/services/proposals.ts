@@ -0,0 +1,31 @@
+import { createKeyValueStore } from "./store";
+
+// Proposed config edits waiting for the user to accept or reject them
+const PROPOSAL_TTL_SECONDS = 60 * 60;
+
+export type Proposal = {
+	// Id of the config the edit is for
+	configId: string;
+	config: string;
+	// SHA of the config the proposal was based on, to detect later edits
+	baseSha: string;
+	message: string;
+	createdAt: number;
+};
+
+export type ProposalStore = {
+	put(id: string, proposal: Proposal): Promise<void>;
+	get(id: string): Promise<Proposal | null>;
+	delete(id: string): Promise<void>;
+};
+
+// Kept in KV when the PROPOSALS namespace is bound, otherwise in memory
+export function createProposalStore(kv?: KVNamespace): ProposalStore {
+	const store = createKeyValueStore(kv, "proposals");
+	const key = (id: string) => `proposal:${id}`;
+	return {
+		put: (id, proposal) => store.put(key(id), proposal, PROPOSAL_TTL_SECONDS),
+		get: (id) => store.get<Proposal>(key(id)),
+		delete: (id) => store.delete(key(id)),
+	};
+}
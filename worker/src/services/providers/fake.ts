@@ -0,0 +1,32 @@
+import type { LlmCompletion, LlmProvider } from "../llm";
+
+// Replays scripted completions in order, one per call, without any network
+// access. Used for tests and for running the chat flow offline.
+export function createFakeProvider(
+	script: Partial<LlmCompletion>[],
+): LlmProvider {
+	let step = 0;
+
+	function next(): LlmCompletion {
+		if (step >= script.length) {
+			throw new Error(`Fake LLM script exhausted after ${script.length} responses`);
+		}
+		const { content = "", toolCalls = [] } = script[step++];
+		return { content, toolCalls };
+	}
+
+	return {
+		async complete() {
+			return next();
+		},
+
+		// Streams the scripted content a word at a time
+		async stream(_request, onText) {
+			const completion = next();
+			for (const word of completion.content.match(/\S+\s*|\s+/g) ?? []) {
+				onText(word);
+			}
+			return completion;
+		},
+	};
+}
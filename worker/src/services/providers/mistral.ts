@@ -0,0 +1,64 @@
+import { Mistral } from "@mistralai/mistralai";
+import type { LlmProvider } from "../llm";
+import { createToolCallCollector } from "./toolCalls";
+
+type MistralContent = string | unknown[] | null | undefined;
+
+function contentToText(content: MistralContent): string {
+	if (!content) return "";
+	return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+export function createMistralProvider(apiKey: string, model: string): LlmProvider {
+	const client = new Mistral({ apiKey });
+
+	return {
+		async complete({ messages, tools }) {
+			const response = await client.chat.complete({
+				model,
+				messages,
+				tools,
+				toolChoice: tools ? "auto" : undefined,
+			});
+
+			const message = response.choices?.[0]?.message;
+
+			return {
+				content: contentToText(message?.content),
+				toolCalls: (message?.toolCalls ?? []).map((call) => ({
+					name: call.function.name,
+					arguments: call.function.arguments,
+				})),
+			};
+		},
+
+		async stream({ messages, tools }, onText) {
+			const events = await client.chat.stream({
+				model,
+				messages,
+				tools,
+				toolChoice: tools ? "auto" : undefined,
+			});
+
+			let content = "";
+			const toolCalls = createToolCallCollector();
+			for await (const event of events) {
+				const delta = event.data.choices[0]?.delta;
+				const text = contentToText(delta?.content);
+				if (text) {
+					content += text;
+					onText(text);
+				}
+				for (const call of delta?.toolCalls ?? []) {
+					toolCalls.add({
+						index: call.index,
+						name: call.function.name,
+						arguments: call.function.arguments,
+					});
+				}
+			}
+
+			return { content, toolCalls: toolCalls.calls() };
+		},
+	};
+}
@@ -0,0 +1,117 @@
+import type { LlmProvider, LlmRequest } from "../llm";
+import { createToolCallCollector } from "./toolCalls";
+
+type OpenAiOptions = {
+	baseUrl: string;
+	apiKey?: string;
+	model: string;
+};
+
+type OpenAiResponse = {
+	choices?: {
+		message?: {
+			content?: string | null;
+			tool_calls?: { function: { name: string; arguments: string } }[];
+		};
+	}[];
+};
+
+type OpenAiChunk = {
+	choices?: {
+		delta?: {
+			content?: string | null;
+			tool_calls?: {
+				index: number;
+				function?: { name?: string; arguments?: string };
+			}[];
+		};
+	}[];
+};
+
+// Payloads of the `data:` lines of a server-sent event stream
+async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+	const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = "";
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		buffer += value;
+		const lines = buffer.split("\n");
+		buffer = lines.pop() ?? "";
+		for (const line of lines) {
+			if (line.startsWith("data:")) yield line.slice("data:".length).trim();
+		}
+	}
+}
+
+// Any server speaking the OpenAI chat completions API (OpenAI, Ollama, llama.cpp, ...)
+export function createOpenAiProvider({
+	baseUrl,
+	apiKey,
+	model,
+}: OpenAiOptions): LlmProvider {
+	async function request({ messages, tools }: LlmRequest, stream: boolean) {
+		const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+			},
+			body: JSON.stringify({
+				model,
+				messages,
+				...(tools ? { tools, tool_choice: "auto" } : {}),
+				...(stream ? { stream: true } : {}),
+			}),
+		});
+
+		if (!response.ok) {
+			const error = await response.text();
+			throw new Error(`LLM request failed: ${response.statusText} - ${error}`);
+		}
+		return response;
+	}
+
+	return {
+		async complete(llmRequest) {
+			const response = await request(llmRequest, false);
+			const data = (await response.json()) as OpenAiResponse;
+			const message = data.choices?.[0]?.message;
+
+			return {
+				content: message?.content || "",
+				toolCalls: (message?.tool_calls ?? []).map((call) => ({
+					name: call.function.name,
+					arguments: call.function.arguments,
+				})),
+			};
+		},
+
+		async stream(llmRequest, onText) {
+			const response = await request(llmRequest, true);
+			if (!response.body) {
+				throw new Error("LLM response has no body to stream");
+			}
+
+			let content = "";
+			const toolCalls = createToolCallCollector();
+			for await (const data of readEventData(response.body)) {
+				if (data === "[DONE]") break;
+				const delta = (JSON.parse(data) as OpenAiChunk).choices?.[0]?.delta;
+				if (delta?.content) {
+					content += delta.content;
+					onText(delta.content);
+				}
+				for (const call of delta?.tool_calls ?? []) {
+					toolCalls.add({
+						index: call.index,
+						name: call.function?.name,
+						arguments: call.function?.arguments,
+					});
+				}
+			}
+
+			return { content, toolCalls: toolCalls.calls() };
+		},
+	};
+}
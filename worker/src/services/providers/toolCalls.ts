@@ -0,0 +1,34 @@
+import type { LlmToolCall } from "../llm";
+
+// A piece of a tool call from a streamed response. Providers send the name
+// first and then the arguments a few characters at a time; pieces of the
+// same call share an index.
+export type ToolCallFragment = {
+	index?: number;
+	name?: string;
+	arguments?: LlmToolCall["arguments"];
+};
+
+export function createToolCallCollector() {
+	const calls: Partial<LlmToolCall>[] = [];
+
+	return {
+		add({ index, name, arguments: args }: ToolCallFragment) {
+			// Without an index every fragment is a complete call
+			const i = index ?? calls.length;
+			const call = (calls[i] ??= {});
+			if (name) call.name = name;
+			if (typeof args === "string" && typeof call.arguments === "string") {
+				call.arguments += args;
+			} else if (args !== undefined) {
+				call.arguments = args;
+			}
+		},
+
+		calls(): LlmToolCall[] {
+			return calls
+				.filter((call) => call?.name)
+				.map((call) => ({ name: call.name!, arguments: call.arguments ?? {} }));
+		},
+	};
+}
@@ -0,0 +1,91 @@
+import type { KeyValueStore } from "./store";
+
+// Request rate limiting and progressive lockout after failed logins.
+// KV is not atomic, so concurrent requests can slip a few extra hits past a
+// limit; that is fine for throttling brute force at this scale. KV also takes
+// about one write per second per key, so the single global counter only
+// counts requests that need an account, not the public config reads every
+// page load makes. Exact limits under heavy traffic would need a Durable
+// Object or the Workers Rate Limiting binding instead.
+
+export type RateLimits = {
+	// Requests per minute from a single IP
+	perIp: number;
+	// Requests per minute across all clients, except public reads
+	global: number;
+};
+
+export const DEFAULT_RATE_LIMITS: RateLimits = { perIp: 30, global: 300 };
+
+const WINDOW_SECONDS = 60;
+
+// Failed logins allowed before a client is locked out
+const MAX_LOGIN_FAILURES = 5;
+// Lockout after MAX_LOGIN_FAILURES, doubling with every further failure
+const BASE_LOCKOUT_SECONDS = 60;
+const MAX_LOCKOUT_SECONDS = 24 * 60 * 60;
+// How long failures are remembered without a successful login
+const FAILURE_MEMORY_SECONDS = 24 * 60 * 60;
+
+type Counter = { count: number; resetAt: number };
+type LoginFailures = { failures: number; lockedUntil: number };
+
+export function createRateLimiter(store: KeyValueStore, limits: RateLimits) {
+	// Count a hit against a fixed window; returns seconds to wait if over the limit
+	async function hit(key: string, limit: number): Promise<number | null> {
+		const now = Date.now();
+		const counter = await store.get<Counter>(key);
+		const current =
+			counter && counter.resetAt > now
+				? counter
+				: { count: 0, resetAt: now + WINDOW_SECONDS * 1000 };
+
+		const ttl = (current.resetAt - now) / 1000;
+		if (current.count >= limit) {
+			return Math.ceil(ttl);
+		}
+		await store.put(key, { ...current, count: current.count + 1 }, ttl);
+		return null;
+	}
+
+	return {
+		// Seconds to wait before retrying, or null if the request may proceed.
+		// Public reads only count against the IP's limit.
+		async checkRequest(ip: string, publicRead = false): Promise<number | null> {
+			const retryAfter = await hit(`rate:ip:${ip}`, limits.perIp);
+			if (retryAfter !== null || publicRead) return retryAfter;
+			return hit("rate:global", limits.global);
+		},
+
+		// Login lockouts are per client, e.g. an IP logging in to one config.
+		// Seconds left on the client's lockout, or null if not locked out.
+		async checkLockout(client: string): Promise<number | null> {
+			const record = await store.get<LoginFailures>(`login:${client}`);
+			const remaining = record ? record.lockedUntil - Date.now() : 0;
+			return remaining > 0 ? Math.ceil(remaining / 1000) : null;
+		},
+
+		async recordFailure(client: string): Promise<void> {
+			const key = `login:${client}`;
+			const record = await store.get<LoginFailures>(key);
+			const failures = (record?.failures ?? 0) + 1;
+
+			let lockedUntil = 0;
+			if (failures >= MAX_LOGIN_FAILURES) {
+				const lockout = Math.min(
+					BASE_LOCKOUT_SECONDS * 2 ** (failures - MAX_LOGIN_FAILURES),
+					MAX_LOCKOUT_SECONDS,
+				);
+				lockedUntil = Date.now() + lockout * 1000;
+			}
+
+			await store.put(key, { failures, lockedUntil }, FAILURE_MEMORY_SECONDS);
+		},
+
+		async recordSuccess(client: string): Promise<void> {
+			await store.delete(`login:${client}`);
+		},
+	};
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
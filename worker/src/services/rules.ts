@@ -0,0 +1,279 @@
+import { parseDate } from "../../../src/dates";
+import { resolveMilestoneDates, type ResolvedConfigJSON } from "../../../src/offsets";
+import { occurrenceDates } from "../../../src/recurrence";
+import { MILESTONE_COLORS } from "../../../src/schema";
+import type { ConfigJSON } from "./validator";
+
+// Semantic checks run after the config has the right shape, on its resolved
+// dates: a milestone given as an offset is checked on the day it falls on.
+// Each rule has a default severity that deployments can override (see
+// parseRuleSeverities).
+
+export type Severity = "error" | "warning";
+
+// How far outside startDate..dueDate a milestone may fall before it's
+// probably a typo (a wrong year or month)
+const RANGE_MARGIN_DAYS = 42;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Finding = {
+	// Dotted path of the offending field, e.g. milestones.2.endDate
+	path: string;
+	message: string;
+};
+
+type Rule = {
+	description: string;
+	severity: Severity;
+	check(config: ResolvedConfigJSON): Finding[];
+};
+
+function milestoneName(config: ResolvedConfigJSON, index: number): string {
+	return `Milestone ${index + 1} ("${config.milestones[index].label}")`;
+}
+
+export const RULES = {
+	"real-dates": {
+		description: "Dates exist in the calendar",
+		severity: "error",
+		check(config) {
+			const findings: Finding[] = [];
+			for (const field of ["startDate", "dueDate"] as const) {
+				if (parseDate(config[field]) === null) {
+					findings.push({ path: field, message: `${field}: ${config[field]} is not a real date` });
+				}
+			}
+			config.milestones.forEach((m, i) => {
+				const dates: [string, string | undefined][] = [
+					["date", m.date],
+					["endDate", m.endDate],
+					["recurrence.until", m.recurrence?.until],
+					...(m.recurrence?.exceptions ?? []).map(
+						(value, j): [string, string] => [`recurrence.exceptions.${j}`, value],
+					),
+				];
+				for (const [field, value] of dates) {
+					if (value !== undefined && parseDate(value) === null) {
+						findings.push({
+							path: `milestones.${i}.${field}`,
+							message: `${milestoneName(config, i)} ${field}: ${value} is not a real date`,
+						});
+					}
+				}
+			});
+			return findings;
+		},
+	},
+
+	"due-after-start": {
+		description: "dueDate is after startDate",
+		severity: "error",
+		check(config) {
+			const start = parseDate(config.startDate);
+			const due = parseDate(config.dueDate);
+			if (start === null || due === null || due > start) return [];
+			return [
+				{
+					path: "dueDate",
+					message: `dueDate: ${config.dueDate} is not after startDate ${config.startDate}`,
+				},
+			];
+		},
+	},
+
+	"end-after-date": {
+		description: "A milestone's endDate is not before its date",
+		severity: "error",
+		check(config) {
+			return config.milestones.flatMap((m, i) => {
+				if (m.endDate === undefined) return [];
+				const start = parseDate(m.date);
+				const end = parseDate(m.endDate);
+				if (start === null || end === null || end >= start) return [];
+				const field = m.endOffset ? "endOffset" : "endDate";
+				return [
+					{
+						path: `milestones.${i}.${field}`,
+						message: `${milestoneName(config, i)} ${field}: ${m.endDate} is before its date ${m.date}`,
+					},
+				];
+			});
+		},
+	},
+
+	"recurrence-ends": {
+		description: "A recurrence has until or count, not both, and doesn't end before it starts",
+		severity: "error",
+		check(config) {
+			return config.milestones.flatMap((m, i) => {
+				const recurrence = m.recurrence;
+				if (!recurrence) return [];
+				if (recurrence.until !== undefined && recurrence.count !== undefined) {
+					return [
+						{
+							path: `milestones.${i}.recurrence`,
+							message: `${milestoneName(config, i)} recurrence: has both until and count`,
+						},
+					];
+				}
+				const start = parseDate(m.date);
+				const until = recurrence.until === undefined ? null : parseDate(recurrence.until);
+				if (start === null || until === null || until >= start) return [];
+				return [
+					{
+						path: `milestones.${i}.recurrence.until`,
+						message: `${milestoneName(config, i)} recurrence.until: ${recurrence.until} is before its date ${m.date}`,
+					},
+				];
+			});
+		},
+	},
+
+	"recurrence-weekdays": {
+		description: "byWeekday is only set on weekly recurrences",
+		severity: "error",
+		check(config) {
+			return config.milestones.flatMap((m, i) =>
+				m.recurrence?.byWeekday && m.recurrence.frequency !== "weekly"
+					? [
+							{
+								path: `milestones.${i}.recurrence.byWeekday`,
+								message: `${milestoneName(config, i)} recurrence.byWeekday: only works with weekly recurrence, not ${m.recurrence.frequency}`,
+							},
+						]
+					: [],
+			);
+		},
+	},
+
+	"recurrence-exceptions": {
+		description: "Recurrence exceptions are dates the milestone would recur on",
+		severity: "warning",
+		check(config) {
+			return config.milestones.flatMap((m, i) => {
+				const { recurrence } = m;
+				const exceptions = recurrence?.exceptions;
+				if (!recurrence || !exceptions?.length || parseDate(m.date) === null) return [];
+				const through = exceptions.reduce((a, b) => (a > b ? a : b));
+				const occurrences = new Set(
+					occurrenceDates(m.date, { ...recurrence, exceptions: undefined }, through),
+				);
+				return exceptions.flatMap((date, j) =>
+					occurrences.has(date) || parseDate(date) === null
+						? []
+						: [
+								{
+									path: `milestones.${i}.recurrence.exceptions.${j}`,
+									message: `${milestoneName(config, i)} recurrence.exceptions: it doesn't recur on ${date}`,
+								},
+							],
+				);
+			});
+		},
+	},
+
+	"milestone-in-range": {
+		description: `Milestones are within ${RANGE_MARGIN_DAYS} days of the pregnancy`,
+		severity: "warning",
+		check(config) {
+			const start = parseDate(config.startDate);
+			const due = parseDate(config.dueDate);
+			if (start === null || due === null) return [];
+			const earliest = start - RANGE_MARGIN_DAYS * DAY_MS;
+			const latest = due + RANGE_MARGIN_DAYS * DAY_MS;
+
+			return config.milestones.flatMap((m, i) =>
+				(["date", "endDate"] as const).flatMap((field) => {
+					const value = m[field];
+					const time = value === undefined ? null : parseDate(value);
+					if (time === null || (time >= earliest && time <= latest)) return [];
+					return [
+						{
+							path: `milestones.${i}.${field}`,
+							message: `${milestoneName(config, i)} ${field}: ${value} is far outside ${config.startDate} to ${config.dueDate}`,
+						},
+					];
+				}),
+			);
+		},
+	},
+
+	"unique-labels": {
+		description: "No two milestones share a label",
+		severity: "warning",
+		check(config) {
+			const seen = new Map<string, number>();
+			return config.milestones.flatMap((m, i) => {
+				const key = m.label.trim().toLowerCase();
+				const first = seen.get(key);
+				if (first === undefined) {
+					seen.set(key, i);
+					return [];
+				}
+				return [
+					{
+						path: `milestones.${i}.label`,
+						message: `${milestoneName(config, i)} label: same as milestone ${first + 1}`,
+					},
+				];
+			});
+		},
+	},
+
+	"known-colors": {
+		description: `Colours are one of ${MILESTONE_COLORS.join(", ")}`,
+		severity: "error",
+		check(config) {
+			return config.milestones.flatMap((m, i) =>
+				m.color === undefined ||
+				(MILESTONE_COLORS as readonly string[]).includes(m.color)
+					? []
+					: [
+							{
+								path: `milestones.${i}.color`,
+								message: `${milestoneName(config, i)} color: "${m.color}" is not one of ${MILESTONE_COLORS.join(", ")}`,
+							},
+						],
+			);
+		},
+	},
+} satisfies Record<string, Rule>;
+
+export type RuleId = keyof typeof RULES;
+
+// Per-rule overrides of the default severity; "off" skips the rule
+export type RuleSeverities = Partial<Record<RuleId, Severity | "off">>;
+
+export type ValidationIssue = Finding & {
+	rule: RuleId;
+	severity: Severity;
+};
+
+export function checkRules(
+	config: ConfigJSON,
+	severities: RuleSeverities = {},
+): ValidationIssue[] {
+	const resolved = resolveMilestoneDates(config);
+	return (Object.keys(RULES) as RuleId[]).flatMap((rule) => {
+		const severity = severities[rule] ?? RULES[rule].severity;
+		if (severity === "off") return [];
+		return RULES[rule].check(resolved).map((finding) => ({ ...finding, rule, severity }));
+	});
+}
+
+// Parse overrides like {"unique-labels": "error", "milestone-in-range": "off"}
+export function parseRuleSeverities(json: string | undefined): RuleSeverities {
+	if (!json) return {};
+
+	const overrides = JSON.parse(json) as Record<string, unknown>;
+	for (const [rule, severity] of Object.entries(overrides)) {
+		if (!(rule in RULES)) {
+			throw new Error(`Unknown validation rule "${rule}"`);
+		}
+		if (severity !== "error" && severity !== "warning" && severity !== "off") {
+			throw new Error(`Validation rule "${rule}" must be "error", "warning" or "off"`);
+		}
+	}
+	return overrides as RuleSeverities;
+}
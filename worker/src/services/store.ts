@@ -0,0 +1,73 @@
+// Small JSON key-value store with expiry, backed by Workers KV when a
+// namespace is bound and by isolate memory otherwise (wrangler dev, tests)
+
+export type KeyValueStore = {
+	get<T>(key: string): Promise<T | null>;
+	// Entries without a TTL are kept until deleted
+	put(key: string, value: unknown, ttlSeconds?: number): Promise<void>;
+	delete(key: string): Promise<void>;
+};
+
+// KV rejects expirations shorter than a minute
+const MIN_KV_TTL_SECONDS = 60;
+
+function createKvStore(kv: KVNamespace): KeyValueStore {
+	return {
+		async get<T>(key: string) {
+			return kv.get<T>(key, "json");
+		},
+		async put(key, value, ttlSeconds) {
+			await kv.put(
+				key,
+				JSON.stringify(value),
+				ttlSeconds === undefined
+					? {}
+					: { expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(ttlSeconds)) },
+			);
+		},
+		async delete(key) {
+			await kv.delete(key);
+		},
+	};
+}
+
+type MemoryEntry = { value: unknown; expiresAt: number };
+
+// One map per store name, shared across requests in the same isolate
+const memoryStores = new Map<string, Map<string, MemoryEntry>>();
+
+function createMemoryStore(name: string): KeyValueStore {
+	let entries = memoryStores.get(name);
+	if (!entries) {
+		entries = new Map();
+		memoryStores.set(name, entries);
+	}
+	const store = entries;
+
+	return {
+		async get<T>(key: string) {
+			const entry = store.get(key);
+			if (!entry) return null;
+			if (entry.expiresAt <= Date.now()) {
+				store.delete(key);
+				return null;
+			}
+			return entry.value as T;
+		},
+		async put(key, value, ttlSeconds) {
+			const expiresAt =
+				ttlSeconds === undefined ? Infinity : Date.now() + ttlSeconds * 1000;
+			store.set(key, { value, expiresAt });
+		},
+		async delete(key) {
+			store.delete(key);
+		},
+	};
+}
+
+export function createKeyValueStore(
+	kv: KVNamespace | undefined,
+	name: string,
+): KeyValueStore {
+	return kv ? createKvStore(kv) : createMemoryStore(name);
+}
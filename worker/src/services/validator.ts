@@ -1,70 +1,105 @@
 import { z } from "@hono/zod-openapi";
+import { ConfigVersionError, migrateConfig } from "../../../src/migrations";
+import {
+	CONFIG_SCHEMA_VERSION,
+	configSchema,
+	describeSchemaIssue,
+	isoDateSchema,
+	milestoneIdSchema,
+	milestoneSchema,
+	pregnancyOffsetSchema,
+	recurrenceSchema,
+	withMilestoneIds,
+	type ConfigJSON,
+} from "../../../src/schema";
+import { checkRules, type RuleSeverities } from "./rules";
 
-// ISO date format: YYYY-MM-DD
-const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD format");
+export type { ConfigJSON };
 
-// Milestone schema
-const milestoneSchema = z.object({
-	date: isoDateSchema,
-	endDate: isoDateSchema.optional(),
-	label: z.string().min(1, "Label is required"),
-	emoji: z.string().min(1, "Emoji is required"),
-	color: z.string().optional(),
-	description: z.string().optional(),
+// One problem with a config. Shape errors stop validation before the
+// semantic rules run, so a config reports one kind or the other.
+export const configIssueSchema = z.object({
+	// Dotted path of the offending field, e.g. milestones.2.endDate
+	path: z.string(),
+	message: z.string(),
+	severity: z.enum(["error", "warning"]),
+	rule: z
+		.string()
+		.optional()
+		.openapi({ description: "Semantic rule that raised it; absent for JSON and shape errors" }),
 });
 
-// Full config schema
-const configSchema = z.object({
-	startDate: isoDateSchema,
-	dueDate: isoDateSchema,
-	todayEmoji: z.string().min(1, "todayEmoji is required"),
-	milestones: z.array(milestoneSchema),
-});
-
-export type ConfigJSON = z.infer<typeof configSchema>;
+export type ConfigIssue = z.infer<typeof configIssueSchema>;
 
 type ValidationResult = {
 	valid: boolean;
+	// Summary of every error, for display
 	error?: string;
+	// Every error and warning, in config order for each rule
+	issues: ConfigIssue[];
 };
 
-export function validateConfig(configString: string): ValidationResult {
+function schemaIssue(path: (string | number)[], message: string): ConfigIssue {
+	return { path: path.join("."), message: describeSchemaIssue(path, message), severity: "error" };
+}
+
+function toResult(issues: ConfigIssue[]): ValidationResult {
+	const errors = issues.filter((issue) => issue.severity === "error");
+	return errors.length
+		? { valid: false, error: errors.map((issue) => issue.message).join("; "), issues }
+		: { valid: true, issues };
+}
+
+export function validateConfig(
+	configString: string,
+	severities?: RuleSeverities,
+): ValidationResult {
 	// Try to parse as JSON
 	let parsed: unknown;
 	try {
 		parsed = JSON.parse(configString);
 	} catch {
-		return { valid: false, error: "Invalid JSON syntax" };
+		return toResult([{ path: "", message: "Invalid JSON syntax", severity: "error" }]);
+	}
+
+	// Older configs are checked as they'll be written, at the latest version
+	try {
+		parsed = migrateConfig(parsed);
+	} catch (error) {
+		if (error instanceof ConfigVersionError) {
+			return toResult([{ path: "schemaVersion", message: error.message, severity: "error" }]);
+		}
+		throw error;
 	}
 
 	// Validate with zod
 	const result = configSchema.safeParse(parsed);
-
 	if (!result.success) {
-		// Format the first error nicely
-		const issue = result.error.issues[0];
-		const path = issue.path.join(".");
-
-		// Make milestone errors more readable
-		if (path.startsWith("milestones.")) {
-			const match = path.match(/^milestones\.(\d+)\.(.+)$/);
-			if (match) {
-				const [, index, field] = match;
-				return {
-					valid: false,
-					error: `Milestone ${Number(index) + 1} ${field}: ${issue.message}`,
-				};
-			}
-		}
-
-		return {
-			valid: false,
-			error: path ? `${path}: ${issue.message}` : issue.message,
-		};
+		return toResult(
+			result.error.issues.map((issue) => schemaIssue(issue.path, issue.message)),
+		);
 	}
 
-	return { valid: true };
+	// Then check the meaning of the values
+	return toResult(checkRules(result.data, severities));
+}
+
+// Parse a stored config and upgrade it to the current schema version.
+// Doesn't validate it. Throws on invalid JSON, or ConfigVersionError if it
+// was written by a newer version.
+export function readConfig(content: string): ConfigJSON {
+	return migrateConfig(JSON.parse(content)) as ConfigJSON;
 }
 
-// Export schema for potential reuse
-export { configSchema, milestoneSchema };
+// The schemas live in the app so both sides agree on the shape
+export {
+	CONFIG_SCHEMA_VERSION,
+	ConfigVersionError,
+	configSchema,
+	isoDateSchema,
+	milestoneIdSchema,
+	milestoneSchema,
+	pregnancyOffsetSchema,
+	recurrenceSchema,
+	withMilestoneIds,
+};
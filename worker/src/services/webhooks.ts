@@ -0,0 +1,299 @@
+import { z } from "@hono/zod-openapi";
+import { commitSummary, editedBy } from "./commitMessage";
+import type { ConfigStore } from "./configStore";
+import { diffConfigs, type ConfigDiff } from "./diff";
+import type { CommitRef, PullRequest } from "./github";
+import { createKeyValueStore } from "./store";
+import { readConfig } from "./validator";
+
+// Outgoing webhooks, so other systems (home automation, chat bots) hear
+// about config changes. Each delivery is a JSON POST signed with the hook's
+// secret, retried on failure and recorded in a per-config delivery log.
+
+export const WEBHOOK_EVENTS = [
+	// A change landed on the config's branch, including merged pull requests
+	"config.committed",
+	// A change was opened as a pull request (pull request mode)
+	"config.proposed",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const webhookSchema = z.object({
+	url: z.string().url(),
+	// Key for the X-Meanwhile-Signature-256 header
+	secret: z.string().min(1),
+	// Events to send, all of them when omitted
+	events: z.array(z.enum(WEBHOOK_EVENTS)).optional(),
+});
+
+export type Webhook = z.infer<typeof webhookSchema>;
+
+export type WebhookBindings = {
+	// JSON array of Webhook
+	WEBHOOKS?: string;
+	// Base delay before retrying a failed delivery, doubled for each retry
+	WEBHOOK_RETRY_DELAY_MS?: string;
+	// Optional KV namespace for the delivery log (in-memory when unbound)
+	WEBHOOK_DELIVERIES?: KVNamespace;
+};
+
+// Thrown when WEBHOOKS is malformed
+export class WebhookConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "WebhookConfigError";
+	}
+}
+
+export function parseWebhooks(json: string | undefined): Webhook[] {
+	if (!json) return [];
+
+	let webhooks: unknown;
+	try {
+		webhooks = JSON.parse(json);
+	} catch {
+		throw new WebhookConfigError("WEBHOOKS is not valid JSON");
+	}
+
+	const result = z.array(webhookSchema).safeParse(webhooks);
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		throw new WebhookConfigError(`WEBHOOKS.${issue.path.join(".")}: ${issue.message}`);
+	}
+	return result.data;
+}
+
+export type WebhookPayload = {
+	// Unique per delivery, also sent as X-Meanwhile-Delivery
+	id: string;
+	event: WebhookEvent;
+	configId: string;
+	timestamp: string;
+	// Summary of the edit, without the config editor prefix
+	message: string;
+	user: string | null;
+	commit: CommitRef;
+	pullRequest?: PullRequest;
+	// Null if either version of the config couldn't be read
+	diff: ConfigDiff | null;
+};
+
+export const webhookDeliverySchema = z.object({
+	id: z.string(),
+	event: z.enum(WEBHOOK_EVENTS),
+	url: z.string(),
+	delivered: z.boolean(),
+	attempts: z.number().int(),
+	status: z
+		.number()
+		.int()
+		.optional()
+		.openapi({ description: "HTTP status of the last attempt, if it got a response" }),
+	error: z.string().optional(),
+	createdAt: z.string(),
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+// How many times to send a delivery before giving up
+const MAX_ATTEMPTS = 3;
+
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+// Per attempt, so a slow receiver can't hold up retries
+const ATTEMPT_TIMEOUT_MS = 10 * 1000;
+
+// Deliveries kept per config, newest first
+const DELIVERY_LOG_SIZE = 50;
+const DELIVERY_LOG_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Run a task after the response is sent (ExecutionContext.waitUntil)
+export type Background = (task: Promise<unknown>) => void;
+
+// Hex HMAC-SHA256 of the body, as sent in X-Meanwhile-Signature-256
+export async function signPayload(secret: string, body: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+	return [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function createDeliveryLog(kv: KVNamespace | undefined, configId: string) {
+	const store = createKeyValueStore(kv, "webhook-deliveries");
+	const key = `${configId}:deliveries`;
+
+	async function list(): Promise<WebhookDelivery[]> {
+		return (await store.get<WebhookDelivery[]>(key)) ?? [];
+	}
+
+	return {
+		list,
+		// Concurrent deliveries can race here and drop an entry; the log is
+		// for troubleshooting, not an audit trail
+		async record(delivery: WebhookDelivery): Promise<void> {
+			const deliveries = (await list()).filter((d) => d.id !== delivery.id);
+			await store.put(
+				key,
+				[delivery, ...deliveries].slice(0, DELIVERY_LOG_SIZE),
+				DELIVERY_LOG_TTL_SECONDS,
+			);
+		},
+	};
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Send a payload to one webhook, retrying network errors, 429s and 5xx
+// responses with exponential backoff
+async function deliver(
+	webhook: Webhook,
+	payload: WebhookPayload,
+	retryDelayMs: number,
+): Promise<WebhookDelivery> {
+	const body = JSON.stringify(payload);
+	const signature = await signPayload(webhook.secret, body);
+	const delivery: WebhookDelivery = {
+		id: payload.id,
+		event: payload.event,
+		url: webhook.url,
+		delivered: false,
+		attempts: 0,
+		createdAt: payload.timestamp,
+	};
+
+	while (delivery.attempts < MAX_ATTEMPTS) {
+		if (delivery.attempts > 0) {
+			await sleep(retryDelayMs * 2 ** (delivery.attempts - 1));
+		}
+		delivery.attempts++;
+
+		try {
+			const response = await fetch(webhook.url, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					"User-Agent": "meanwhile-config-editor",
+					"X-Meanwhile-Event": payload.event,
+					"X-Meanwhile-Delivery": payload.id,
+					"X-Meanwhile-Signature-256": `sha256=${signature}`,
+				},
+				body,
+				signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+			});
+			delivery.status = response.status;
+			delivery.error = undefined;
+			if (response.ok) {
+				delivery.delivered = true;
+				return delivery;
+			}
+			// The receiver rejected the payload; sending it again won't help
+			if (response.status < 500 && response.status !== 429) {
+				return delivery;
+			}
+		} catch (error) {
+			delivery.status = undefined;
+			delivery.error = error instanceof Error ? error.message : "Unknown error";
+		}
+	}
+	return delivery;
+}
+
+type Announcement = Omit<WebhookPayload, "id" | "event" | "configId" | "timestamp">;
+
+// Wrap a store so that commits and merges are announced to the config's
+// webhooks in the background. Returns the store itself when there are none.
+export function withWebhooks(
+	store: ConfigStore,
+	env: WebhookBindings,
+	configId: string,
+	background: Background,
+): ConfigStore {
+	const webhooks = parseWebhooks(env.WEBHOOKS);
+	if (!webhooks.length) return store;
+
+	const retryDelayMs = Number(env.WEBHOOK_RETRY_DELAY_MS ?? DEFAULT_RETRY_DELAY_MS);
+	const log = createDeliveryLog(env.WEBHOOK_DELIVERIES, configId);
+
+	function announce(event: WebhookEvent, announcement: Announcement) {
+		const targets = webhooks.filter((webhook) => !webhook.events || webhook.events.includes(event));
+		for (const webhook of targets) {
+			const payload: WebhookPayload = {
+				id: crypto.randomUUID(),
+				event,
+				configId,
+				timestamp: new Date().toISOString(),
+				...announcement,
+			};
+			background(
+				deliver(webhook, payload, retryDelayMs)
+					.then((delivery) => log.record(delivery))
+					.catch((error) => console.error("Error delivering webhook:", error)),
+			);
+		}
+	}
+
+	function diff(before: string, after: string): ConfigDiff | null {
+		try {
+			return diffConfigs(readConfig(before), readConfig(after));
+		} catch {
+			return null;
+		}
+	}
+
+	const wrapped: ConfigStore = {
+		...store,
+		async commit(content, message, baseSha, user) {
+			const before = await store.get();
+			const commit = await store.commit(content, message, baseSha, user);
+			const { pullRequest, ...ref } = commit;
+			announce(pullRequest ? "config.proposed" : "config.committed", {
+				message: commitSummary(message),
+				user,
+				commit: ref,
+				pullRequest,
+				diff: diff(before.content, content),
+			});
+			return commit;
+		},
+	};
+	const { updatePullRequest, mergePullRequest } = store;
+	if (updatePullRequest) {
+		wrapped.updatePullRequest = async (number, content, message, baseSha, user) => {
+			const before = await store.get();
+			const commit = await updatePullRequest(number, content, message, baseSha, user);
+			const { pullRequest, ...ref } = commit;
+			announce("config.proposed", {
+				message: commitSummary(message),
+				user,
+				commit: ref,
+				pullRequest,
+				diff: diff(before.content, content),
+			});
+			return commit;
+		};
+	}
+	if (mergePullRequest) {
+		wrapped.mergePullRequest = async (number) => {
+			const before = await store.get();
+			const merge = await mergePullRequest(number);
+			const [after, commit] = await Promise.all([store.get(), store.getCommit(merge.sha)]);
+			announce("config.committed", {
+				message: commitSummary(commit.message),
+				user: editedBy(commit.message),
+				commit: merge,
+				diff: diff(before.content, after.content),
+			});
+			return merge;
+		};
+	}
+	return wrapped;
+}
@@ -0,0 +1,31 @@
+import type { AuthBindings, User } from "./services/auth";
+import type { ConfigStoreBindings } from "./services/configStore";
+import type { TenantBindings } from "./services/configs";
+import type { LlmBindings } from "./services/llm";
+import type { WebhookBindings } from "./services/webhooks";
+
+export type Bindings = LlmBindings &
+	AuthBindings &
+	ConfigStoreBindings &
+	TenantBindings &
+	WebhookBindings & {
+	// Optional KV namespace for pending proposals (in-memory when unbound)
+	PROPOSALS?: KVNamespace;
+	// Optional KV namespace for rate limit counters (in-memory when unbound)
+	RATE_LIMITS?: KVNamespace;
+	// Requests per minute, overriding DEFAULT_RATE_LIMITS
+	RATE_LIMIT_PER_IP?: string;
+	RATE_LIMIT_GLOBAL?: string;
+	// JSON object of validation rule severity overrides, see services/rules.ts
+	VALIDATION_RULES?: string;
+};
+
+export type AppEnv = {
+	Bindings: Bindings;
+	Variables: {
+		// Set by selectConfig
+		configId: string;
+		// Set by requireUser
+		user: User;
+	};
+};